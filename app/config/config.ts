@@ -2,6 +2,7 @@ import dotenv from "dotenv";
 import path from "path";
 import fs from "fs";
 import os from "os";
+import type { TransitionType } from "../types";
 
 // Load environment variables from .env file
 dotenv.config({ path: path.resolve(__dirname, "../../.env") });
@@ -13,19 +14,158 @@ const ENV_KEYS = {
     ANON_KEY: "SUPABASE_ANON_KEY",
     STORAGE_BUCKET: "STORAGE_BUCKET",
   },
+  STORAGE: {
+    PROVIDER: "STORAGE_PROVIDER",
+    LOCAL_ROOT: "STORAGE_LOCAL_ROOT",
+    LOCAL_URL_PATH: "STORAGE_LOCAL_URL_PATH",
+    PUBLIC_BASE_URL: "STORAGE_PUBLIC_BASE_URL",
+    S3_BUCKET: "S3_BUCKET",
+    S3_REGION: "S3_REGION",
+    S3_ENDPOINT: "S3_ENDPOINT",
+    S3_ACCESS_KEY_ID: "S3_ACCESS_KEY_ID",
+    S3_SECRET_ACCESS_KEY: "S3_SECRET_ACCESS_KEY",
+    S3_FORCE_PATH_STYLE: "S3_FORCE_PATH_STYLE",
+    SEGMENT_VIDEO_PATH: "STORAGE_SEGMENT_VIDEO_PATH",
+    FINAL_VIDEO_PATH: "STORAGE_FINAL_VIDEO_PATH",
+    VIDEO_ARTIFACT_PATH: "STORAGE_VIDEO_ARTIFACT_PATH",
+  },
   QUEUE: {
     NAME: "QUEUE_NAME",
+    VIDEO_NAME: "VIDEO_QUEUE_NAME",
+    VISIBILITY_TIMEOUT: "QUEUE_VISIBILITY_TIMEOUT",
+    MAX_READ_COUNT: "QUEUE_MAX_READ_COUNT",
+    RETRY_BASE_DELAY: "QUEUE_RETRY_BASE_DELAY",
+    RETRY_MAX_DELAY: "QUEUE_RETRY_MAX_DELAY",
+    DEAD_LETTER_ENABLED: "DEAD_LETTER_ENABLED",
+    DEAD_LETTER_NAME: "DEAD_LETTER_QUEUE_NAME",
   },
   SERVER: {
     PORT: "PORT",
     HOST: "HOST",
     ALLOWED_IPS: "ALLOWED_IPS", // Add this for IP whitelist
+    SHUTDOWN_GRACE_PERIOD: "SHUTDOWN_GRACE_PERIOD",
   },
   PROCESSING: {
     WORKER_COUNT: "WORKER_COUNT",
+    VIDEO_WORKER_COUNT: "VIDEO_WORKER_COUNT",
+    SEGMENT_WORKER_COUNT: "SEGMENT_WORKER_COUNT",
     INTERVAL: "PROCESSING_INTERVAL",
+    IDLE_BACKOFF_MIN: "IDLE_BACKOFF_MIN",
+    SEGMENT_RENDER_CONCURRENCY: "SEGMENT_RENDER_CONCURRENCY",
     AUTO_START: "AUTO_START",
   },
+  WEBHOOKS: {
+    URLS: "WEBHOOK_URLS",
+    SECRET: "WEBHOOK_SECRET",
+    MAX_ATTEMPTS: "WEBHOOK_MAX_ATTEMPTS",
+    RETRY_BASE_DELAY: "WEBHOOK_RETRY_BASE_DELAY",
+    TIMEOUT: "WEBHOOK_TIMEOUT",
+    LOG_LIMIT: "WEBHOOK_LOG_LIMIT",
+  },
+  JOBS: {
+    HISTORY_LIMIT: "JOB_HISTORY_LIMIT",
+  },
+  TRANSCRIPTION: {
+    PROVIDER: "TRANSCRIPTION_PROVIDER",
+    MODEL: "TRANSCRIPTION_MODEL",
+    LANGUAGE: "TRANSCRIPTION_LANGUAGE",
+    DEVICE: "TRANSCRIPTION_DEVICE",
+    WHISPER_PATH: "WHISPER_PATH",
+    WHISPER_CPP_PATH: "WHISPER_CPP_PATH",
+    WHISPER_CPP_MODEL_DIR: "WHISPER_CPP_MODEL_DIR",
+    FASTER_WHISPER_PATH: "FASTER_WHISPER_PATH",
+    FASTER_WHISPER_COMPUTE_TYPE: "FASTER_WHISPER_COMPUTE_TYPE",
+  },
+  SUBTITLES: {
+    MODE: "SUBTITLE_MODE",
+    SILENCE_THRESHOLD: "SUBTITLE_SILENCE_THRESHOLD",
+    SILENCE_MIN_DURATION: "SUBTITLE_SILENCE_MIN_DURATION",
+    ALIGN_SCRIPT: "SUBTITLE_ALIGN_SCRIPT",
+    MIN_ALIGNMENT_CONFIDENCE: "SUBTITLE_MIN_ALIGNMENT_CONFIDENCE",
+    DELIVERY: "SUBTITLE_DELIVERY",
+    SIDECAR: "SUBTITLE_SIDECAR",
+    TRANSLATE: "SUBTITLE_TRANSLATE",
+  },
+  CAPTIONS: {
+    MODE: "CAPTION_MODE",
+    HIGHLIGHT_COLOR: "CAPTION_HIGHLIGHT_COLOR",
+    POP_SCALE: "CAPTION_POP_SCALE",
+    POP_DURATION: "CAPTION_POP_DURATION",
+    MAX_WORDS_PER_LINE: "CAPTION_MAX_WORDS_PER_LINE",
+    POSITION: "CAPTION_POSITION",
+    SAFE_AREA_X: "CAPTION_SAFE_AREA_X",
+    SAFE_AREA_Y: "CAPTION_SAFE_AREA_Y",
+    PROFILE: "CAPTION_PROFILE",
+    PROFILES_FILE: "CAPTION_PROFILES_FILE",
+    FONTS_DIR: "CAPTION_FONTS_DIR",
+    LANGUAGE: "CAPTION_LANGUAGE",
+  },
+  MOTION: {
+    STYLE: "MOTION_STYLE",
+    MAX_ZOOM: "MOTION_MAX_ZOOM",
+    SUPERSAMPLE: "MOTION_SUPERSAMPLE",
+  },
+  RENDER: {
+    PRESET: "RENDER_PRESET",
+    PRESETS_FILE: "RENDER_PRESETS_FILE",
+  },
+  MUSIC: {
+    TRACK: "MUSIC_TRACK",
+    LIBRARY_DIR: "MUSIC_LIBRARY_DIR",
+    GAIN: "MUSIC_GAIN",
+    FADE_IN: "MUSIC_FADE_IN",
+    FADE_OUT: "MUSIC_FADE_OUT",
+    DUCK_THRESHOLD: "MUSIC_DUCK_THRESHOLD",
+    DUCK_RATIO: "MUSIC_DUCK_RATIO",
+    DUCK_ATTACK: "MUSIC_DUCK_ATTACK",
+    DUCK_RELEASE: "MUSIC_DUCK_RELEASE",
+  },
+  BRANDING: {
+    LIBRARY_DIR: "BRANDING_DIR",
+    INTRO: "BRANDING_INTRO",
+    OUTRO: "BRANDING_OUTRO",
+    WATERMARK_IMAGE: "WATERMARK_IMAGE",
+    WATERMARK_POSITION: "WATERMARK_POSITION",
+    WATERMARK_SCALE: "WATERMARK_SCALE",
+    WATERMARK_OPACITY: "WATERMARK_OPACITY",
+    WATERMARK_MARGIN: "WATERMARK_MARGIN",
+  },
+  HLS: {
+    ENABLED: "HLS_ENABLED",
+    LADDER: "HLS_LADDER",
+    SEGMENT_TYPE: "HLS_SEGMENT_TYPE",
+    SEGMENT_DURATION: "HLS_SEGMENT_DURATION",
+    UPLOAD_CONCURRENCY: "HLS_UPLOAD_CONCURRENCY",
+  },
+  PREVIEWS: {
+    ENABLED: "PREVIEWS_ENABLED",
+    POSTER_FORMAT: "PREVIEW_POSTER_FORMAT",
+    POSTER_TIME: "PREVIEW_POSTER_TIME",
+    POSTER_TITLE: "PREVIEW_POSTER_TITLE",
+    TITLE_FONT: "PREVIEW_TITLE_FONT",
+    ANIMATION_FORMAT: "PREVIEW_ANIMATION_FORMAT",
+    ANIMATION_DURATION: "PREVIEW_ANIMATION_DURATION",
+    ANIMATION_WIDTH: "PREVIEW_ANIMATION_WIDTH",
+    ANIMATION_FPS: "PREVIEW_ANIMATION_FPS",
+    SPRITE_INTERVAL: "PREVIEW_SPRITE_INTERVAL",
+    SPRITE_WIDTH: "PREVIEW_SPRITE_WIDTH",
+    SPRITE_COLUMNS: "PREVIEW_SPRITE_COLUMNS",
+  },
+  CACHE: {
+    ENABLED: "CACHE_ENABLED",
+    DIR: "CACHE_DIR",
+    MAX_SIZE_MB: "CACHE_MAX_SIZE_MB",
+  },
+  CHECKPOINTS: {
+    ENABLED: "CHECKPOINTS_ENABLED",
+    HEARTBEAT_INTERVAL: "CHECKPOINT_HEARTBEAT_INTERVAL",
+    STALE_AFTER: "CHECKPOINT_STALE_AFTER",
+    MAX_RESUMES: "CHECKPOINT_MAX_RESUMES",
+  },
+  TRANSITIONS: {
+    TYPE: "TRANSITION_TYPE",
+    DURATION: "TRANSITION_DURATION",
+  },
 } as const;
 
 // Get environment variable with type checking
@@ -54,6 +194,97 @@ function parseInt(value: string | undefined, defaultValue: number): number {
   return parsed;
 }
 
+// Transition styles accepted from the environment
+const TRANSITION_TYPES: TransitionType[] = ["fade", "wipe", "slide", "dissolve"];
+
+// Parse transition type environment variable
+function parseTransitionType(
+  value: string | undefined,
+  defaultValue: TransitionType
+): TransitionType {
+  if (value === undefined) return defaultValue;
+  const normalized = value.toLowerCase();
+  return TRANSITION_TYPES.includes(normalized as TransitionType)
+    ? (normalized as TransitionType)
+    : defaultValue;
+}
+
+// Storage backends accepted from the environment
+const STORAGE_PROVIDERS = ["supabase", "local", "s3"] as const;
+export type StorageProviderName = (typeof STORAGE_PROVIDERS)[number];
+
+// Transcription engines accepted from the environment
+export const TRANSCRIPTION_PROVIDERS = ["whisper", "whisper-cpp", "faster-whisper"] as const;
+export type TranscriptionProviderName = (typeof TRANSCRIPTION_PROVIDERS)[number];
+
+// Where subtitle timings come from:
+// whisper-first falls back to the Segment script, script-only never transcribes,
+// fail-hard fails the segment when transcription fails
+const SUBTITLE_MODES = ["whisper-first", "script-only", "fail-hard"] as const;
+export type SubtitleMode = (typeof SUBTITLE_MODES)[number];
+
+// How finalized videos carry their subtitles: burned into the picture, as soft tracks
+// in the MP4 players can switch on, or both
+const SUBTITLE_DELIVERIES = ["burn", "soft", "both"] as const;
+export type SubtitleDelivery = (typeof SUBTITLE_DELIVERIES)[number];
+
+// How captions are burned in: srt shows whole lines with the current word underlined,
+// karaoke renders an ASS file that colors and pops each word as it is spoken
+const CAPTION_MODES = ["srt", "karaoke"] as const;
+export type CaptionMode = (typeof CAPTION_MODES)[number];
+
+// Subtitles burned into the picture: the spoken language or its English translation
+export const CAPTION_LANGUAGES = ["original", "en"] as const;
+export type CaptionLanguage = (typeof CAPTION_LANGUAGES)[number];
+
+// Vertical placement of captions
+const CAPTION_POSITIONS = ["bottom", "middle", "top"] as const;
+export type CaptionPosition = (typeof CAPTION_POSITIONS)[number];
+
+// Camera moves applied to segment images (Ken Burns effect)
+export const MOTION_STYLES = [
+  "zoom-in",
+  "zoom-out",
+  "pan-left",
+  "pan-right",
+  "pan-up",
+  "pan-down",
+  "zoom-to-point",
+  "static",
+] as const;
+export type MotionStyle = (typeof MOTION_STYLES)[number];
+
+// Corner (or center) a watermark is placed in
+export const WATERMARK_POSITIONS = [
+  "top-left",
+  "top-right",
+  "bottom-left",
+  "bottom-right",
+  "center",
+] as const;
+export type WatermarkPosition = (typeof WATERMARK_POSITIONS)[number];
+
+// HLS media segment containers: fragmented MP4 or MPEG-TS
+const HLS_SEGMENT_TYPES = ["fmp4", "ts"] as const;
+export type HlsSegmentType = (typeof HLS_SEGMENT_TYPES)[number];
+
+// Still and animated preview image formats
+const POSTER_FORMATS = ["jpg", "webp"] as const;
+export type PosterFormat = (typeof POSTER_FORMATS)[number];
+const ANIMATION_FORMATS = ["webp", "gif"] as const;
+export type AnimationFormat = (typeof ANIMATION_FORMATS)[number];
+
+// Parse a value that must be one of a fixed set of options
+function parseOption<T extends string>(
+  value: string | undefined,
+  options: readonly T[],
+  defaultValue: T
+): T {
+  if (value === undefined) return defaultValue;
+  const normalized = value.toLowerCase() as T;
+  return options.includes(normalized) ? normalized : defaultValue;
+}
+
 // Configuration object
 export const config = {
   supabase: {
@@ -61,8 +292,61 @@ export const config = {
     anonKey: getEnvVar(ENV_KEYS.SUPABASE.ANON_KEY),
     storageBucket: getEnvVar(ENV_KEYS.SUPABASE.STORAGE_BUCKET),
   },
+  storage: {
+    provider: parseOption(process.env[ENV_KEYS.STORAGE.PROVIDER], STORAGE_PROVIDERS, "supabase"),
+    local: {
+      // Directory files are written to and the URL path the server exposes them on
+      root: getEnvVar(
+        ENV_KEYS.STORAGE.LOCAL_ROOT,
+        path.join(process.cwd(), "temp", "storage")
+      ),
+      urlPath: getEnvVar(ENV_KEYS.STORAGE.LOCAL_URL_PATH, "/storage"),
+    },
+    s3: {
+      bucket: process.env[ENV_KEYS.STORAGE.S3_BUCKET] || "",
+      region: getEnvVar(ENV_KEYS.STORAGE.S3_REGION, "us-east-1"),
+      endpoint: process.env[ENV_KEYS.STORAGE.S3_ENDPOINT], // e.g. http://localhost:9000 for MinIO
+      accessKeyId: process.env[ENV_KEYS.STORAGE.S3_ACCESS_KEY_ID],
+      secretAccessKey: process.env[ENV_KEYS.STORAGE.S3_SECRET_ACCESS_KEY],
+      forcePathStyle: parseBoolean(process.env[ENV_KEYS.STORAGE.S3_FORCE_PATH_STYLE], true),
+    },
+    // Base of public URLs for the local and S3 providers (defaults per provider)
+    publicBaseUrl: process.env[ENV_KEYS.STORAGE.PUBLIC_BASE_URL],
+    // Object paths, with {storyId}, {segmentId}, {videoId}, {fileName} and {ext} placeholders
+    paths: {
+      segmentVideo: getEnvVar(
+        ENV_KEYS.STORAGE.SEGMENT_VIDEO_PATH,
+        "videos/{storyId}/{segmentId}.{ext}"
+      ),
+      finalVideo: getEnvVar(
+        ENV_KEYS.STORAGE.FINAL_VIDEO_PATH,
+        "finalized-videos/{videoId}.{ext}"
+      ),
+      videoArtifact: getEnvVar(
+        ENV_KEYS.STORAGE.VIDEO_ARTIFACT_PATH,
+        "finalized-videos/{videoId}/{fileName}"
+      ),
+    },
+  },
   queue: {
     name: getEnvVar(ENV_KEYS.QUEUE.NAME),
+    // Videos get their own queue so the video and segment pools never read each other's messages
+    videoName: getEnvVar(ENV_KEYS.QUEUE.VIDEO_NAME, "videos-to-process-queue"),
+    // Seconds a read message stays invisible to other consumers (the lease)
+    visibilityTimeout: parseInt(process.env[ENV_KEYS.QUEUE.VISIBILITY_TIMEOUT], 300),
+    // Give up on a message once it has been read this many times
+    maxReadCount: parseInt(process.env[ENV_KEYS.QUEUE.MAX_READ_COUNT], 5),
+    // Exponential backoff bounds (seconds) before a failed message becomes visible again
+    retryBaseDelay: parseInt(process.env[ENV_KEYS.QUEUE.RETRY_BASE_DELAY], 30),
+    retryMaxDelay: parseInt(process.env[ENV_KEYS.QUEUE.RETRY_MAX_DELAY], 900),
+  },
+  deadLetter: {
+    enabled: parseBoolean(process.env[ENV_KEYS.QUEUE.DEAD_LETTER_ENABLED], true),
+    // Defaults to the main queue name with a -dlq suffix
+    queueName: getEnvVar(
+      ENV_KEYS.QUEUE.DEAD_LETTER_NAME,
+      `${getEnvVar(ENV_KEYS.QUEUE.NAME)}-dlq`
+    ),
   },
   server: {
     port: parseInt(getEnvVar(ENV_KEYS.SERVER.PORT), 3001),
@@ -70,12 +354,243 @@ export const config = {
     allowedIPs: getEnvVar(ENV_KEYS.SERVER.ALLOWED_IPS, "127.0.0.1,::1").split(
       ","
     ), // Add this for IP whitelist
+    // Seconds in-flight jobs get to finish on SIGTERM/SIGINT before their FFmpeg/Whisper children are stopped
+    shutdownGracePeriod: parseInt(process.env[ENV_KEYS.SERVER.SHUTDOWN_GRACE_PERIOD], 60),
   },
   processing: {
     workerCount: parseInt(getEnvVar(ENV_KEYS.PROCESSING.WORKER_COUNT), 6),
+    // Concurrent video (merge) and segment (render) jobs; segments default to WORKER_COUNT
+    videoWorkerCount: parseInt(process.env[ENV_KEYS.PROCESSING.VIDEO_WORKER_COUNT], 1),
+    segmentWorkerCount: parseInt(
+      process.env[ENV_KEYS.PROCESSING.SEGMENT_WORKER_COUNT],
+      parseInt(getEnvVar(ENV_KEYS.PROCESSING.WORKER_COUNT), 6)
+    ),
+    // Longest a worker waits before polling an empty queue again
     interval: parseInt(getEnvVar(ENV_KEYS.PROCESSING.INTERVAL), 60000),
+    // First wait after an empty poll, doubled up to `interval`
+    idleBackoffMin: parseInt(process.env[ENV_KEYS.PROCESSING.IDLE_BACKOFF_MIN], 1000),
+    // Segments rendered in parallel within a single video job
+    segmentRenderConcurrency: parseInt(
+      process.env[ENV_KEYS.PROCESSING.SEGMENT_RENDER_CONCURRENCY],
+      2
+    ),
     autoStart: parseBoolean(getEnvVar(ENV_KEYS.PROCESSING.AUTO_START), true),
   },
+  webhooks: {
+    // Endpoints notified when a segment or video completes or fails
+    urls: (process.env[ENV_KEYS.WEBHOOKS.URLS] || "")
+      .split(",")
+      .map((url) => url.trim())
+      .filter(Boolean),
+    // Shared secret for the HMAC signature header (unsigned when empty)
+    secret: process.env[ENV_KEYS.WEBHOOKS.SECRET] || "",
+    maxAttempts: parseInt(process.env[ENV_KEYS.WEBHOOKS.MAX_ATTEMPTS], 6),
+    // Milliseconds before the first retry, doubled per attempt
+    retryBaseDelay: parseInt(process.env[ENV_KEYS.WEBHOOKS.RETRY_BASE_DELAY], 5000),
+    // Milliseconds to wait for an endpoint to respond
+    timeout: parseInt(process.env[ENV_KEYS.WEBHOOKS.TIMEOUT], 10000),
+    // Deliveries kept in memory for /api/webhooks/deliveries
+    logLimit: parseInt(process.env[ENV_KEYS.WEBHOOKS.LOG_LIMIT], 1000),
+  },
+  jobs: {
+    // Finished jobs kept in memory for the /api/jobs endpoints
+    historyLimit: parseInt(process.env[ENV_KEYS.JOBS.HISTORY_LIMIT], 500),
+  },
+  transcription: {
+    provider: parseOption(
+      process.env[ENV_KEYS.TRANSCRIPTION.PROVIDER],
+      TRANSCRIPTION_PROVIDERS,
+      "whisper"
+    ),
+    // Defaults for every job; a queue message can override them per job
+    model: getEnvVar(ENV_KEYS.TRANSCRIPTION.MODEL, "base"),
+    language: getEnvVar(ENV_KEYS.TRANSCRIPTION.LANGUAGE, "auto"), // "auto" to detect
+    device: process.env[ENV_KEYS.TRANSCRIPTION.DEVICE] || "", // e.g. cpu or cuda, empty lets the engine decide
+    whisperPath: getEnvVar(ENV_KEYS.TRANSCRIPTION.WHISPER_PATH, "whisper"),
+    whisperCpp: {
+      path: getEnvVar(ENV_KEYS.TRANSCRIPTION.WHISPER_CPP_PATH, "whisper-cli"),
+      // Directory holding ggml-<model>.bin files
+      modelDir: getEnvVar(
+        ENV_KEYS.TRANSCRIPTION.WHISPER_CPP_MODEL_DIR,
+        path.join(process.cwd(), "models")
+      ),
+    },
+    fasterWhisper: {
+      // faster-whisper is driven through the whisper-ctranslate2 CLI
+      path: getEnvVar(ENV_KEYS.TRANSCRIPTION.FASTER_WHISPER_PATH, "whisper-ctranslate2"),
+      computeType: getEnvVar(ENV_KEYS.TRANSCRIPTION.FASTER_WHISPER_COMPUTE_TYPE, "default"),
+    },
+  },
+  subtitles: {
+    mode: parseOption(process.env[ENV_KEYS.SUBTITLES.MODE], SUBTITLE_MODES, "whisper-first"),
+    // Pauses used to place script sentences: volume below this many dB for at least this many seconds
+    silenceThreshold: parseInt(process.env[ENV_KEYS.SUBTITLES.SILENCE_THRESHOLD], -35),
+    silenceMinDuration: parseInt(process.env[ENV_KEYS.SUBTITLES.SILENCE_MIN_DURATION], 0.3),
+    // Replace transcribed words with the script's spelling, keeping the transcribed timings
+    alignScript: parseBoolean(process.env[ENV_KEYS.SUBTITLES.ALIGN_SCRIPT], true),
+    // Below this alignment confidence (0-1) the script likely doesn't match the audio,
+    // so the transcribed words are kept as they are
+    minAlignmentConfidence: parseInt(
+      process.env[ENV_KEYS.SUBTITLES.MIN_ALIGNMENT_CONFIDENCE],
+      0.5
+    ),
+    delivery: parseOption(
+      process.env[ENV_KEYS.SUBTITLES.DELIVERY],
+      SUBTITLE_DELIVERIES,
+      "burn"
+    ),
+    // Publish SRT and WebVTT files covering the whole finalized video
+    sidecar: parseBoolean(process.env[ENV_KEYS.SUBTITLES.SIDECAR], true),
+    // Add an English translation (whisper's translate task) when the narration isn't English
+    translate: parseBoolean(process.env[ENV_KEYS.SUBTITLES.TRANSLATE], true),
+  },
+  captions: {
+    mode: parseOption(process.env[ENV_KEYS.CAPTIONS.MODE], CAPTION_MODES, "srt"),
+    // Profile used when neither the Video nor its Story picks one
+    profile: getEnvVar(ENV_KEYS.CAPTIONS.PROFILE, "default"),
+    // Language burned in when the Video doesn't pick one
+    language: parseOption(process.env[ENV_KEYS.CAPTIONS.LANGUAGE], CAPTION_LANGUAGES, "original"),
+    // Optional JSON file of extra caption profiles
+    profilesFile: getEnvVar(ENV_KEYS.CAPTIONS.PROFILES_FILE, ""),
+    // Fonts handed to libass alongside the system fonts
+    fontsDir: getEnvVar(
+      ENV_KEYS.CAPTIONS.FONTS_DIR,
+      path.join(process.cwd(), "assets", "fonts")
+    ),
+    karaoke: {
+      // Color of the word being spoken, as #RRGGBB
+      highlightColor: getEnvVar(ENV_KEYS.CAPTIONS.HIGHLIGHT_COLOR, "#FFD700"),
+      // Size the spoken word pops to, in percent (100 disables the pop)
+      popScale: parseInt(process.env[ENV_KEYS.CAPTIONS.POP_SCALE], 115),
+      // Milliseconds the pop takes to grow and settle back
+      popDuration: parseInt(process.env[ENV_KEYS.CAPTIONS.POP_DURATION], 160),
+      maxWordsPerLine: parseInt(process.env[ENV_KEYS.CAPTIONS.MAX_WORDS_PER_LINE], 4),
+      position: parseOption(process.env[ENV_KEYS.CAPTIONS.POSITION], CAPTION_POSITIONS, "bottom"),
+      // Fraction of the frame width/height kept clear at the edges (platform UI overlays)
+      safeAreaX: parseInt(process.env[ENV_KEYS.CAPTIONS.SAFE_AREA_X], 0.1),
+      safeAreaY: parseInt(process.env[ENV_KEYS.CAPTIONS.SAFE_AREA_Y], 0.12),
+    },
+  },
+  motion: {
+    // "auto" gives each story a seeded sequence of moves; a style name uses that move everywhere
+    style: parseOption(process.env[ENV_KEYS.MOTION.STYLE], ["auto", ...MOTION_STYLES], "auto"),
+    // How far moves zoom into the image (1.15 = 15%)
+    maxZoom: parseInt(process.env[ENV_KEYS.MOTION.MAX_ZOOM], 1.15),
+    // Images are upscaled this many times before zoompan so moves stay smooth
+    supersample: parseInt(process.env[ENV_KEYS.MOTION.SUPERSAMPLE], 4),
+  },
+  render: {
+    // Output preset used when the job or Video doesn't pick one
+    preset: getEnvVar(ENV_KEYS.RENDER.PRESET, "1080p"),
+    // Optional JSON file of extra render presets
+    presetsFile: getEnvVar(ENV_KEYS.RENDER.PRESETS_FILE, ""),
+  },
+  music: {
+    // Track used when the Video doesn't pick one: a URL or a file in the library (empty for none)
+    track: getEnvVar(ENV_KEYS.MUSIC.TRACK, ""),
+    libraryDir: getEnvVar(
+      ENV_KEYS.MUSIC.LIBRARY_DIR,
+      path.join(process.cwd(), "assets", "music")
+    ),
+    // Music level in dB before ducking
+    gain: parseInt(process.env[ENV_KEYS.MUSIC.GAIN], -18),
+    // Fade lengths in seconds
+    fadeIn: parseInt(process.env[ENV_KEYS.MUSIC.FADE_IN], 2),
+    fadeOut: parseInt(process.env[ENV_KEYS.MUSIC.FADE_OUT], 3),
+    // Sidechain compression keyed by the narration
+    duck: {
+      threshold: parseInt(process.env[ENV_KEYS.MUSIC.DUCK_THRESHOLD], 0.03),
+      ratio: parseInt(process.env[ENV_KEYS.MUSIC.DUCK_RATIO], 8),
+      attack: parseInt(process.env[ENV_KEYS.MUSIC.DUCK_ATTACK], 20), // ms
+      release: parseInt(process.env[ENV_KEYS.MUSIC.DUCK_RELEASE], 400), // ms
+    },
+  },
+  branding: {
+    // Bumpers and logos may be URLs or file names in this directory
+    libraryDir: getEnvVar(
+      ENV_KEYS.BRANDING.LIBRARY_DIR,
+      path.join(process.cwd(), "assets", "branding")
+    ),
+    // Clips played before and after every video (empty for none)
+    intro: getEnvVar(ENV_KEYS.BRANDING.INTRO, ""),
+    outro: getEnvVar(ENV_KEYS.BRANDING.OUTRO, ""),
+    watermark: {
+      // Logo image overlaid on the story (empty for none)
+      image: getEnvVar(ENV_KEYS.BRANDING.WATERMARK_IMAGE, ""),
+      position: parseOption(
+        process.env[ENV_KEYS.BRANDING.WATERMARK_POSITION],
+        WATERMARK_POSITIONS,
+        "bottom-right"
+      ),
+      // Logo width as a fraction of the frame width
+      scale: parseInt(process.env[ENV_KEYS.BRANDING.WATERMARK_SCALE], 0.12),
+      opacity: parseInt(process.env[ENV_KEYS.BRANDING.WATERMARK_OPACITY], 0.8),
+      // Gap to the frame edges as a fraction of the frame's shorter side
+      margin: parseInt(process.env[ENV_KEYS.BRANDING.WATERMARK_MARGIN], 0.04),
+    },
+  },
+  hls: {
+    // Package finalized videos for adaptive streaming
+    enabled: parseBoolean(process.env[ENV_KEYS.HLS.ENABLED], false),
+    // Rendition sizes by their shorter side, e.g. 1080,720,480
+    ladder: getEnvVar(ENV_KEYS.HLS.LADDER, "1080,720,480")
+      .split(",")
+      .map((rung) => Number(rung.trim()))
+      .filter((rung) => rung > 0),
+    segmentType: parseOption(process.env[ENV_KEYS.HLS.SEGMENT_TYPE], HLS_SEGMENT_TYPES, "fmp4"),
+    // Target media segment length in seconds
+    segmentDuration: parseInt(process.env[ENV_KEYS.HLS.SEGMENT_DURATION], 6),
+    uploadConcurrency: parseInt(process.env[ENV_KEYS.HLS.UPLOAD_CONCURRENCY], 4),
+  },
+  previews: {
+    // Generate a poster, animated preview and thumbnail sprites for finalized videos
+    enabled: parseBoolean(process.env[ENV_KEYS.PREVIEWS.ENABLED], true),
+    poster: {
+      format: parseOption(process.env[ENV_KEYS.PREVIEWS.POSTER_FORMAT], POSTER_FORMATS, "jpg"),
+      // Seconds into the story (after any intro) the poster frame is taken from
+      time: parseInt(process.env[ENV_KEYS.PREVIEWS.POSTER_TIME], 1),
+      // Draw the Story title on the poster
+      title: parseBoolean(process.env[ENV_KEYS.PREVIEWS.POSTER_TITLE], false),
+      titleFont: getEnvVar(ENV_KEYS.PREVIEWS.TITLE_FONT, "Arial"),
+    },
+    animation: {
+      format: parseOption(
+        process.env[ENV_KEYS.PREVIEWS.ANIMATION_FORMAT],
+        ANIMATION_FORMATS,
+        "webp"
+      ),
+      duration: parseInt(process.env[ENV_KEYS.PREVIEWS.ANIMATION_DURATION], 3),
+      width: parseInt(process.env[ENV_KEYS.PREVIEWS.ANIMATION_WIDTH], 480),
+      fps: parseInt(process.env[ENV_KEYS.PREVIEWS.ANIMATION_FPS], 10),
+    },
+    sprites: {
+      // Seconds between thumbnails
+      interval: parseInt(process.env[ENV_KEYS.PREVIEWS.SPRITE_INTERVAL], 2),
+      width: parseInt(process.env[ENV_KEYS.PREVIEWS.SPRITE_WIDTH], 160),
+      columns: parseInt(process.env[ENV_KEYS.PREVIEWS.SPRITE_COLUMNS], 10),
+    },
+  },
+  cache: {
+    // Reuse downloads, transcripts and segment renders across jobs
+    enabled: parseBoolean(process.env[ENV_KEYS.CACHE.ENABLED], true),
+    dir: getEnvVar(ENV_KEYS.CACHE.DIR, path.join(os.homedir(), "story-generator-cache")),
+    // Least recently used entries are evicted beyond this size
+    maxSizeMB: parseInt(process.env[ENV_KEYS.CACHE.MAX_SIZE_MB], 10240),
+  },
+  checkpoints: {
+    // Persist video job progress so an interrupted job resumes where it stopped
+    enabled: parseBoolean(process.env[ENV_KEYS.CHECKPOINTS.ENABLED], true),
+    // Seconds between "still running" updates of a job's checkpoint
+    heartbeatInterval: parseInt(process.env[ENV_KEYS.CHECKPOINTS.HEARTBEAT_INTERVAL], 30),
+    // A running job whose checkpoint hasn't been updated for this many seconds is presumed dead
+    staleAfter: parseInt(process.env[ENV_KEYS.CHECKPOINTS.STALE_AFTER], 120),
+    // Interrupted jobs are failed instead of resumed after this many resumes
+    maxResumes: parseInt(process.env[ENV_KEYS.CHECKPOINTS.MAX_RESUMES], 3),
+  },
+  transitions: {
+    type: parseTransitionType(process.env[ENV_KEYS.TRANSITIONS.TYPE], "fade"),
+    duration: parseInt(process.env[ENV_KEYS.TRANSITIONS.DURATION], 0.5),
+  },
   paths: {
     tempDir: path.join(os.homedir(), "story-generator-temp"),
     processingDir: "processing", // Subdirectory inside tempDir for processing
@@ -1,6 +1,17 @@
 import { validateConfig, config } from '../config/config';
-import { processSegment } from "../services/segment-processor"
+import { processSegment, updateSegmentVideo } from "../services/segment-processor"
 import { supabasePGMQPublic, supabasePublic } from "../services/supabase";
+import {
+  archiveMessage,
+  readMessage,
+  startLease
+} from '../services/queue-service';
+import { settleFailedMessage } from '../services/dead-letter-service';
+import { completeJob, createJob, failJob } from '../services/job-service';
+import { dispatchWebhook } from '../services/webhook-service';
+import { isValidTranscriptionOverrides } from '../services/transcription-service';
+import { isShuttingDown, returnMessage, shutdownError } from '../services/shutdown-service';
+import { permanentError } from '../utils/errors';
 import { HandlerResponse } from '../types';
 import { logger } from '../utils/logger';
 
@@ -12,6 +23,15 @@ export async function handler(event?: any): Promise<HandlerResponse> {
   const queue_name = config.queue.name;
   
   try {
+    // Don't pick up new work once shutdown has started
+    if (isShuttingDown()) {
+      return {
+        statusCode: 503,
+        body: JSON.stringify({ message: "Server is shutting down" }),
+        idle: true
+      };
+    }
+    
     logger.info('Starting segment processing', {
       queue: queue_name,
       supabaseUrl: config.supabase.url.substring(0, 10) + '...'
@@ -22,102 +42,162 @@ export async function handler(event?: any): Promise<HandlerResponse> {
       throw new Error("Supabase clients not available");
     }
     
-    // Use the 'pgmq.pop' RPC function to get a message from the queue
-    const { data, error } = await supabasePGMQPublic.rpc("pop", {
-      queue_name
-    });
-    
-    if (error) {
-      throw error;
-    }
+    // Read (lease) a message from the queue; it stays invisible to other workers
+    // until we archive it or the visibility timeout lapses
+    const q = await readMessage(queue_name);
     
-    if (!data || data.length === 0) {
+    if (!q) {
       logger.info("No messages in queue");
       return {
         statusCode: 200,
-        body: JSON.stringify({ message: "No messages in queue" })
+        body: JSON.stringify({ message: "No messages in queue" }),
+        idle: true
       };
     }
     
-    const q = data[0];
     const message_id = q.msg_id;
     
     // Validate the message format
-    if (!q.message || typeof q.message !== 'object' || !q.message.segmentId) {
+    if (
+      !q.message ||
+      typeof q.message !== 'object' ||
+      !q.message.segmentId ||
+      !isValidTranscriptionOverrides(q.message.transcription) ||
+      (q.message.captionProfile !== undefined && typeof q.message.captionProfile !== 'string') ||
+      (q.message.renderPreset !== undefined && typeof q.message.renderPreset !== 'string') ||
+      (q.message.captionLanguage !== undefined && typeof q.message.captionLanguage !== 'string')
+    ) {
       logger.error("Invalid message format", { message: q.message });
       
-      // Archive invalid messages
-      await supabasePGMQPublic.rpc("archive", {
-        queue_name,
-        msg_id: message_id
-      });
+      // Dead-letter and archive invalid messages, retrying won't fix them
+      await settleFailedMessage(
+        q,
+        permanentError('Invalid message format', undefined, 'validate'),
+        queue_name
+      );
       
       return {
         statusCode: 400,
         body: JSON.stringify({ 
           error: "Invalid message format", 
-          message: "Message archived due to invalid format" 
+          message: "Message rejected due to invalid format" 
         })
       };
     }
     
     const segmentId = q.message.segmentId;
     
+    // Keep the message leased while FFmpeg/Whisper are running
+    const lease = startLease(message_id, queue_name);
+    
+    // Track this run so it shows up in /api/jobs
+    const job = createJob('segment', segmentId, { msgId: message_id, attempt: q.read_ct });
+    
     try {
-      logger.info('Processing segment', { segmentId });
+      logger.info('Processing segment', { segmentId, attempt: q.read_ct });
       
       // Process the segment to create a video
-      const videoURL = await processSegment(segmentId);
-      
-      if (!videoURL) {
-        throw new Error("Failed to process segment and create video");
-      }
-      
-      // Update the videoURL field of the corresponding segment
-      const { data: updatedSegment, error: updateError } = await supabasePublic
-        .from("Segment")
-        .update({ videoURL })
-        .eq("id", segmentId)
-        .select();
+      const {
+        videoURL,
+        renderHash,
+        duration,
+        subtitleSource,
+        alignmentConfidence,
+        transcript,
+        translations
+      } = await processSegment(segmentId, job, {
+        transcription: q.message.transcription,
+        captionProfile: q.message.captionProfile,
+        renderPreset: q.message.renderPreset,
+        captionLanguage: q.message.captionLanguage
+      });
       
-      if (updateError || !updatedSegment || updatedSegment.length === 0) {
-        throw new Error(`Update failed: ${updateError?.message || 'Unknown update error'}`);
-      }
+      // Update the videoURL (and render fingerprint and transcripts) of the corresponding segment
+      await updateSegmentVideo(segmentId, { videoURL, renderHash, transcript, translations });
       
       // Acknowledge the message by archiving it
-      await supabasePGMQPublic.rpc("archive", {
-        queue_name,
-        msg_id: message_id
+      lease.stop();
+      await archiveMessage(message_id, queue_name);
+      
+      completeJob(job, { videoURL, subtitleSource, alignmentConfidence });
+      logger.info('Successfully processed segment', {
+        segmentId,
+        videoURL,
+        subtitleSource,
+        alignmentConfidence
       });
       
-      logger.info('Successfully processed segment', { segmentId, videoURL });
+      dispatchWebhook('segment.completed', {
+        segmentId,
+        storyId: job.storyId,
+        jobId: job.id,
+        status: 'completed',
+        url: videoURL,
+        duration,
+        subtitleSource,
+        alignmentConfidence
+      });
       
       return {
         statusCode: 200,
         body: JSON.stringify({
           message: `Successfully processed segment ${segmentId}`,
+          jobId: job.id,
           videoURL
         })
       };
     } catch (processingError) {
+      // Cut short by shutdown rather than failed: hand the segment to another worker
+      if (isShuttingDown()) {
+        failJob(job, shutdownError(processingError));
+        lease.stop();
+        await returnMessage(q, queue_name);
+        return {
+          statusCode: 503,
+          body: JSON.stringify({
+            message: `Processing of segment ${segmentId} was interrupted by shutdown`,
+            jobId: job.id
+          })
+        };
+      }
+      
       logger.error('Processing error', {
         segmentId,
+        attempt: q.read_ct,
         error: processingError
       });
       
-      // Log the error and archive the message - no ProcessingErrors logging needed
-      await supabasePGMQPublic.rpc("archive", {
-        queue_name,
-        msg_id: message_id
-      });
+      failJob(job, processingError);
+      
+      // Retry temporary failures with backoff, archive the rest
+      lease.stop();
+      const outcome = await settleFailedMessage(q, processingError, queue_name);
+      
+      // Only notify once the segment won't be retried
+      if (!outcome.retried) {
+        dispatchWebhook('segment.failed', {
+          segmentId,
+          storyId: job.storyId,
+          jobId: job.id,
+          status: 'failed',
+          error: (processingError as Error).message
+        });
+      }
       
       return {
         statusCode: 422,
         body: JSON.stringify({
-          message: `Failed to process segment ${segmentId}. Message archived.`,
+          message: outcome.retried
+            ? `Failed to process segment ${segmentId}. Retrying in ${outcome.retryDelay}s.`
+            : `Failed to process segment ${segmentId}. Message ${outcome.deadLettered ? 'dead-lettered' : 'archived'}.`,
+          jobId: job.id,
+          errorType: outcome.errorType,
+          attempt: q.read_ct,
           error: (processingError as Error).message
         })
       };
+    } finally {
+      lease.stop();
     }
   } catch (overallError) {
     logger.error('Overall handler error', { error: overallError });
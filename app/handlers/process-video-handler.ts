@@ -1,6 +1,18 @@
 import { validateConfig, config } from '../config/config';
 import { processVideo } from "../services/video-processor";
 import { supabasePGMQPublic, supabasePublic } from "../services/supabase";
+import {
+  archiveMessage,
+  hasExhaustedRetries,
+  readMessage,
+  startLease
+} from "../services/queue-service";
+import { settleFailedMessage } from "../services/dead-letter-service";
+import { completeJob, createJob, failJob } from "../services/job-service";
+import { dispatchWebhook } from "../services/webhook-service";
+import { isValidTranscriptionOverrides } from "../services/transcription-service";
+import { isShuttingDown, returnMessage, shutdownError } from "../services/shutdown-service";
+import { permanentError } from "../utils/errors";
 import { HandlerResponse } from '../types';
 
 // Validate the configuration before starting
@@ -8,9 +20,18 @@ validateConfig();
 
 // The main handler function that processes the next video in the queue
 export async function handler(event?: any): Promise<HandlerResponse> {
-  const queue_name = config.queue.name;
+  const queue_name = config.queue.videoName;
   
   try {
+    // Don't pick up new work once shutdown has started
+    if (isShuttingDown()) {
+      return {
+        statusCode: 503,
+        body: JSON.stringify({ message: "Server is shutting down" }),
+        idle: true
+      };
+    }
+    
     console.log(`Starting video processing from queue: ${queue_name}`);
     console.log(`Supabase URL: ${config.supabase.url.substring(0, 10)}...`); // Only log part of the URL for security
     console.log(`Queue config: ${JSON.stringify(config.queue)}`);
@@ -32,105 +53,156 @@ export async function handler(event?: any): Promise<HandlerResponse> {
       };
     }
     
-    // Use the 'pgmq.pop' RPC function to get a message from the queue
-    const { data, error } = await supabasePGMQPublic.rpc("pop", {
-      queue_name
-    });
-    
-    console.log(`Queue response: ${JSON.stringify({ data, error }, null, 2)}`);
-    
-    if (error) {
-      console.error("Error popping from queue:", error);
+    // Read (lease) a message from the queue; it stays invisible to other workers
+    // until we archive it or the visibility timeout lapses
+    let q;
+    try {
+      q = await readMessage(queue_name);
+    } catch (error) {
+      console.error("Error reading from queue:", error);
       return {
         statusCode: 500,
-        body: JSON.stringify({ error: error.message })
+        body: JSON.stringify({ error: (error as Error).message })
       };
     }
     
-    if (!data || data.length === 0) {
+    if (!q) {
       console.log("No messages in the queue");
       return {
         statusCode: 200,
-        body: JSON.stringify({ message: "No messages in the queue" })
+        body: JSON.stringify({ message: "No messages in the queue" }),
+        idle: true
       };
     }
     
-    const q = data[0];
+    console.log(`Queue message: ${JSON.stringify(q, null, 2)}`);
+    
     const message_id = q.msg_id;
     
     // Validate the message format
-    if (!q.message || typeof q.message !== 'object' || !q.message.videoId) {
+    if (
+      !q.message ||
+      typeof q.message !== 'object' ||
+      !q.message.videoId ||
+      !isValidTranscriptionOverrides(q.message.transcription) ||
+      (q.message.captionProfile !== undefined && typeof q.message.captionProfile !== "string") ||
+      (q.message.renderPreset !== undefined && typeof q.message.renderPreset !== "string") ||
+      (q.message.captionLanguage !== undefined && typeof q.message.captionLanguage !== "string")
+    ) {
       console.error("Invalid message format:", q.message);
       
-      // Archive invalid messages to prevent them from being processed again
-      if (supabasePGMQPublic) {
-        await supabasePGMQPublic.rpc("archive", {
-          queue_name,
-          msg_id: message_id
-        });
-      }
+      // Dead-letter and archive invalid messages to prevent them from being processed again
+      await settleFailedMessage(
+        q,
+        permanentError("Invalid message format", undefined, "validate"),
+        queue_name
+      );
       
       return {
         statusCode: 400,
         body: JSON.stringify({ 
           error: "Invalid message format", 
-          message: "Message archived due to invalid format" 
+          message: "Message rejected due to invalid format" 
         })
       };
     }
     
     const videoId = q.message.videoId;
     
+    // Keep the message leased while segments render and merge
+    const lease = startLease(message_id, queue_name);
+    
+    // Track this run so it shows up in /api/jobs
+    const job = createJob("video", videoId, { msgId: message_id, attempt: q.read_ct });
+    
     try {
-      console.log(`Processing video ${videoId}`);
+      console.log(`Processing video ${videoId} (attempt ${q.read_ct}/${config.queue.maxReadCount})`);
       
       // Process the video to create a video from all segments
-      const videoURL = await processVideo(videoId);
-      
-      if (!videoURL) {
-        throw new Error("Failed to process video");
-      }
+      const { videoURL, storyId, duration, ...artifacts } = await processVideo(videoId, {
+        isFinalAttempt: hasExhaustedRetries(q),
+        job,
+        transcription: q.message.transcription,
+        captionProfile: q.message.captionProfile,
+        renderPreset: q.message.renderPreset,
+        captionLanguage: q.message.captionLanguage,
+        message: { msgId: message_id, queueName: queue_name, payload: q.message }
+      });
+      completeJob(job, { videoURL, duration, ...artifacts });
       
       // Acknowledge the message by archiving it
-      if (!supabasePGMQPublic) {
-        throw new Error("Supabase PGMQ client not available for archiving message");
-      }
+      lease.stop();
+      await archiveMessage(message_id, queue_name);
       
-      await supabasePGMQPublic.rpc("archive", {
-        queue_name,
-        msg_id: message_id
+      dispatchWebhook("video.completed", {
+        videoId,
+        storyId,
+        jobId: job.id,
+        status: "completed",
+        url: videoURL,
+        duration,
+        ...artifacts
       });
       
       return {
         statusCode: 200,
         body: JSON.stringify({
           message: `Successfully processed video ${videoId}`,
+          jobId: job.id,
           videoURL
         })
       };
     } catch (processingError) {
+      // Cut short by shutdown rather than failed: the video stays pending and its
+      // checkpoint lets the next worker resume it
+      if (isShuttingDown()) {
+        failJob(job, shutdownError(processingError));
+        lease.stop();
+        await returnMessage(q, queue_name);
+        return {
+          statusCode: 503,
+          body: JSON.stringify({
+            message: `Processing of video ${videoId} was interrupted by shutdown`,
+            jobId: job.id
+          })
+        };
+      }
+      
       console.error("Error processing message:", processingError);
       
-      // Log the error and archive the message
       const errorMessage = (processingError as Error).message;
       console.error(`Error processing video ${videoId}:`, errorMessage);
+      failJob(job, processingError);
       
-      if (!supabasePGMQPublic) {
-        throw new Error("Supabase PGMQ client not available for archiving message");
-      }
+      // Retry temporary failures with backoff, archive the rest
+      lease.stop();
+      const outcome = await settleFailedMessage(q, processingError, queue_name);
       
-      await supabasePGMQPublic.rpc("archive", {
-        queue_name,
-        msg_id: message_id
-      });
+      // Only notify once the video has been marked as failed and won't be retried
+      if (!outcome.retried) {
+        dispatchWebhook("video.failed", {
+          videoId,
+          storyId: job.storyId,
+          jobId: job.id,
+          status: "failed",
+          error: errorMessage
+        });
+      }
       
       return {
         statusCode: 422,
         body: JSON.stringify({
-          message: `Failed to process video ${videoId}. Message archived.`,
+          message: outcome.retried
+            ? `Failed to process video ${videoId}. Retrying in ${outcome.retryDelay}s.`
+            : `Failed to process video ${videoId}. Message ${outcome.deadLettered ? "dead-lettered" : "archived"}.`,
+          jobId: job.id,
+          errorType: outcome.errorType,
+          attempt: q.read_ct,
           error: errorMessage
         })
       };
+    } finally {
+      lease.stop();
     }
   } catch (error) {
     console.error("Unhandled error in handler:", error);
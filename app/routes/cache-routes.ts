@@ -0,0 +1,33 @@
+import express from 'express';
+import type { Request, Response } from 'express';
+import { clearCache, getCacheStats, isCacheNamespace } from '../services/cache-service';
+import { logger } from '../utils/logger';
+
+// Routes for inspecting and clearing the local media cache, mounted at /api/cache
+export const cacheRouter = express.Router();
+
+cacheRouter.get('/', (req: Request, res: Response) => {
+  try {
+    res.json(getCacheStats());
+  } catch (error) {
+    logger.error('Cache stats error', { error });
+    res.status(500).json({ error: 'Failed to get cache stats' });
+  }
+});
+
+// Clear the whole cache, or one namespace with ?namespace=download|transcript|segment
+cacheRouter.delete('/', (req: Request, res: Response) => {
+  const { namespace } = req.query;
+  if (namespace !== undefined && !isCacheNamespace(namespace)) {
+    res.status(400).json({ error: `Unknown cache namespace "${namespace}"` });
+    return;
+  }
+
+  try {
+    const removed = clearCache(namespace);
+    res.json({ message: `Removed ${removed} cache entries`, removed });
+  } catch (error) {
+    logger.error('Cache clear error', { namespace, error });
+    res.status(500).json({ error: 'Failed to clear cache' });
+  }
+});
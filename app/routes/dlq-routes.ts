@@ -0,0 +1,111 @@
+import express from 'express';
+import type { Request, Response } from 'express';
+import { config } from '../config/config';
+import {
+  deleteDeadLetter,
+  getDeadLetter,
+  listDeadLetters,
+  purgeDeadLetters,
+  redriveAllDeadLetters,
+  redriveDeadLetter
+} from '../services/dead-letter-service';
+import { logger } from '../utils/logger';
+
+// Routes for inspecting and re-driving the dead-letter queue, mounted at /api/dlq
+export const dlqRouter = express.Router();
+
+// Parse the :msgId route parameter, responding with 400 if it isn't a number
+function parseMsgId(req: Request, res: Response): number | null {
+  const msgId = Number(req.params.msgId);
+  if (!Number.isInteger(msgId)) {
+    res.status(400).json({ error: 'Invalid message id' });
+    return null;
+  }
+  return msgId;
+}
+
+dlqRouter.get('/', async (req: Request, res: Response) => {
+  try {
+    const limit = Number(req.query.limit) || undefined;
+    const messages = await listDeadLetters(limit);
+    res.json({
+      queue: config.deadLetter.queueName,
+      count: messages.length,
+      messages
+    });
+  } catch (error) {
+    logger.error('DLQ list error', { error });
+    res.status(500).json({ error: 'Failed to list dead-letter queue' });
+  }
+});
+
+dlqRouter.get('/:msgId', async (req: Request, res: Response) => {
+  const msgId = parseMsgId(req, res);
+  if (msgId === null) return;
+
+  try {
+    const message = await getDeadLetter(msgId);
+    if (!message) {
+      res.status(404).json({ error: `Message ${msgId} not found in dead-letter queue` });
+      return;
+    }
+    res.json(message);
+  } catch (error) {
+    logger.error('DLQ inspect error', { msgId, error });
+    res.status(500).json({ error: 'Failed to inspect dead-letter message' });
+  }
+});
+
+dlqRouter.post('/redrive', async (req: Request, res: Response) => {
+  try {
+    const { redriven, failed } = await redriveAllDeadLetters();
+    res.json({
+      message: `Re-drove ${redriven.length} messages, ${failed.length} failed`,
+      redriven,
+      failed
+    });
+  } catch (error) {
+    logger.error('DLQ redrive error', { error });
+    res.status(500).json({ error: 'Failed to re-drive dead-letter queue' });
+  }
+});
+
+dlqRouter.post('/:msgId/redrive', async (req: Request, res: Response) => {
+  const msgId = parseMsgId(req, res);
+  if (msgId === null) return;
+
+  try {
+    const result = await redriveDeadLetter(msgId);
+    if (!result) {
+      res.status(404).json({ error: `Message ${msgId} not found in dead-letter queue` });
+      return;
+    }
+    res.json({ message: `Re-drove message ${msgId}`, ...result });
+  } catch (error) {
+    logger.error('DLQ redrive error', { msgId, error });
+    res.status(500).json({ error: 'Failed to re-drive dead-letter message' });
+  }
+});
+
+dlqRouter.delete('/:msgId', async (req: Request, res: Response) => {
+  const msgId = parseMsgId(req, res);
+  if (msgId === null) return;
+
+  try {
+    await deleteDeadLetter(msgId);
+    res.json({ message: `Deleted message ${msgId}` });
+  } catch (error) {
+    logger.error('DLQ delete error', { msgId, error });
+    res.status(500).json({ error: 'Failed to delete dead-letter message' });
+  }
+});
+
+dlqRouter.delete('/', async (req: Request, res: Response) => {
+  try {
+    const purged = await purgeDeadLetters();
+    res.json({ message: `Purged ${purged} messages`, purged });
+  } catch (error) {
+    logger.error('DLQ purge error', { error });
+    res.status(500).json({ error: 'Failed to purge dead-letter queue' });
+  }
+});
@@ -0,0 +1,19 @@
+import express from 'express';
+import type { Request, Response } from 'express';
+import { onJobEvent } from '../services/job-service';
+import { openEventStream } from '../utils/sse';
+
+// Firehose of every job event, mounted at /api/events
+export const eventRouter = express.Router();
+
+eventRouter.get('/', (req: Request, res: Response) => {
+  const storyId = typeof req.query.storyId === 'string' ? req.query.storyId : undefined;
+
+  let unsubscribe = () => {};
+  const stream = openEventStream(req, res, () => unsubscribe());
+
+  unsubscribe = onJobEvent((event) => {
+    if (storyId && event.storyId !== storyId) return;
+    stream.send(event.event, event);
+  });
+});
@@ -0,0 +1,96 @@
+import express from 'express';
+import type { Request, Response } from 'express';
+import {
+  JobFilter,
+  JobState,
+  JobType,
+  getJob,
+  isJobFinished,
+  listJobs,
+  onJobEvent
+} from '../services/job-service';
+import { openEventStream } from '../utils/sse';
+
+// Routes for inspecting segment and video jobs, mounted at /api/jobs
+export const jobRouter = express.Router();
+
+const JOB_STATES: JobState[] = [
+  'queued',
+  'downloading',
+  'transcribing',
+  'rendering',
+  'merging',
+  'branding',
+  'mixing',
+  'packaging',
+  'previews',
+  'uploading',
+  'done',
+  'failed'
+];
+
+const JOB_TYPES: JobType[] = ['segment', 'video'];
+
+jobRouter.get('/', (req: Request, res: Response) => {
+  const { state, type, storyId, targetId } = req.query;
+
+  if (state !== undefined && !JOB_STATES.includes(state as JobState)) {
+    res.status(400).json({ error: `Invalid state, expected one of ${JOB_STATES.join(', ')}` });
+    return;
+  }
+
+  if (type !== undefined && !JOB_TYPES.includes(type as JobType)) {
+    res.status(400).json({ error: `Invalid type, expected one of ${JOB_TYPES.join(', ')}` });
+    return;
+  }
+
+  const filter: JobFilter = {
+    state: state as JobState | undefined,
+    type: type as JobType | undefined,
+    storyId: typeof storyId === 'string' ? storyId : undefined,
+    targetId: typeof targetId === 'string' ? targetId : undefined
+  };
+
+  const limit = Number(req.query.limit) || undefined;
+  const jobs = listJobs(filter);
+
+  res.json({
+    count: jobs.length,
+    jobs: limit ? jobs.slice(0, limit) : jobs
+  });
+});
+
+jobRouter.get('/:id', (req: Request, res: Response) => {
+  const job = getJob(req.params.id);
+  if (!job) {
+    res.status(404).json({ error: `Job ${req.params.id} not found` });
+    return;
+  }
+  res.json(job);
+});
+
+// Stream a single job's stage changes and progress until it finishes
+jobRouter.get('/:id/events', (req: Request, res: Response) => {
+  const job = getJob(req.params.id);
+  if (!job) {
+    res.status(404).json({ error: `Job ${req.params.id} not found` });
+    return;
+  }
+
+  let unsubscribe = () => {};
+  const stream = openEventStream(req, res, () => unsubscribe());
+
+  // Start with the current state so clients don't wait for the next update
+  stream.send('snapshot', job);
+  if (isJobFinished(job)) {
+    stream.close();
+    return;
+  }
+
+  unsubscribe = onJobEvent((event) => {
+    stream.send(event.event, event);
+    if (event.event === 'done' || event.event === 'failed') {
+      stream.close();
+    }
+  }, job.id);
+});
@@ -0,0 +1,49 @@
+import express from 'express';
+import type { Request, Response } from 'express';
+import { config } from '../config/config';
+import {
+  WebhookDeliveryFilter,
+  WebhookDeliveryStatus,
+  WebhookEventType,
+  getDelivery,
+  listDeliveries
+} from '../services/webhook-service';
+
+// Routes for inspecting webhook deliveries, mounted at /api/webhooks
+export const webhookRouter = express.Router();
+
+const DELIVERY_STATUSES: WebhookDeliveryStatus[] = ['pending', 'delivered', 'failed'];
+
+webhookRouter.get('/deliveries', (req: Request, res: Response) => {
+  const { status, type, videoId, segmentId } = req.query;
+
+  if (status !== undefined && !DELIVERY_STATUSES.includes(status as WebhookDeliveryStatus)) {
+    res.status(400).json({ error: `Invalid status, expected one of ${DELIVERY_STATUSES.join(', ')}` });
+    return;
+  }
+
+  const filter: WebhookDeliveryFilter = {
+    status: status as WebhookDeliveryStatus | undefined,
+    type: typeof type === 'string' ? (type as WebhookEventType) : undefined,
+    videoId: typeof videoId === 'string' ? videoId : undefined,
+    segmentId: typeof segmentId === 'string' ? segmentId : undefined
+  };
+
+  const limit = Number(req.query.limit) || undefined;
+  const deliveries = listDeliveries(filter);
+
+  res.json({
+    endpoints: config.webhooks.urls.length,
+    count: deliveries.length,
+    deliveries: limit ? deliveries.slice(0, limit) : deliveries
+  });
+});
+
+webhookRouter.get('/deliveries/:id', (req: Request, res: Response) => {
+  const delivery = getDelivery(req.params.id);
+  if (!delivery) {
+    res.status(404).json({ error: `Delivery ${req.params.id} not found` });
+    return;
+  }
+  res.json(delivery);
+});
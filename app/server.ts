@@ -7,7 +7,17 @@ import { handler as processVideoHandler } from './handlers/process-video-handler
 import { handler as processSegmentHandler } from './handlers/process-segment-handler';
 import { cleanupTempFiles } from './services/cleanup-service';
 import { supabasePGMQPublic } from './services/supabase';
+import { createWorkerPool } from './services/worker-pool';
+import { recoverInterruptedVideos } from './services/checkpoint-service';
+import { flushWebhooks } from './services/webhook-service';
+import { beginShutdown, isShuttingDown } from './services/shutdown-service';
+import { getChildProcessCount, terminateChildProcesses } from './utils/process';
 import { ipFilter } from './middleware/ip-filter';
+import { dlqRouter } from './routes/dlq-routes';
+import { jobRouter } from './routes/job-routes';
+import { eventRouter } from './routes/event-routes';
+import { webhookRouter } from './routes/webhook-routes';
+import { cacheRouter } from './routes/cache-routes';
 import { logger, requestLogger } from './utils/logger';
 
 // Configure Express server
@@ -23,6 +33,11 @@ apiRouter.use(ipFilter);
 // Apply router to /api path
 app.use('/api', apiRouter);
 
+// Serve uploaded files publicly when they are stored on the local filesystem
+if (config.storage.provider === 'local') {
+  app.use(config.storage.local.urlPath, express.static(config.storage.local.root));
+}
+
 // Move API routes to use the router
 apiRouter.get('/queue/status', async (req: Request, res: Response) => {
   try {
@@ -30,16 +45,24 @@ apiRouter.get('/queue/status', async (req: Request, res: Response) => {
       throw new Error('Supabase PGMQ client is not available');
     }
 
-    const { data, error } = await supabasePGMQPublic.rpc("peek", {
-      queue_name: config.queue.name
-    });
-
-    if (error) throw error;
+    const queueNames = { video: config.queue.videoName, segment: config.queue.name };
+    const queues: Record<string, { name: string; messagesAvailable: boolean }> = {};
+    for (const [type, name] of Object.entries(queueNames)) {
+      const { data, error } = await supabasePGMQPublic.rpc("peek", {
+        queue_name: name
+      });
+      if (error) throw error;
+      queues[type] = { name, messagesAvailable: Boolean(data && data.length > 0) };
+    }
 
     const queueStatus = {
       isProcessing,
-      messagesAvailable: data && data.length > 0,
-      workerCount: config.processing.workerCount,
+      messagesAvailable: Object.values(queues).some((queue) => queue.messagesAvailable),
+      queues,
+      workers: {
+        video: videoWorkers.getStatus(),
+        segment: segmentWorkers.getStatus()
+      },
       processingInterval: config.processing.interval
     };
 
@@ -50,13 +73,32 @@ apiRouter.get('/queue/status', async (req: Request, res: Response) => {
   }
 });
 
+// Dead-letter queue inspection and re-drive
+apiRouter.use('/dlq', dlqRouter);
+
+// Job tracking and progress
+apiRouter.use('/jobs', jobRouter);
+apiRouter.use('/events', eventRouter);
+
+// Webhook delivery log
+apiRouter.use('/webhooks', webhookRouter);
+
+// Download, transcript and render cache
+apiRouter.use('/cache', cacheRouter);
+
 apiRouter.post('/control/start', (req: Request, res: Response) => {
+  if (isShuttingDown()) {
+    res.status(503).json({ error: 'Server is shutting down' });
+    return;
+  }
   startPeriodicProcessing();
   res.json({ message: 'Processing started' });
 });
 
 apiRouter.post('/control/stop', (req: Request, res: Response) => {
-  stopPeriodicProcessing();
+  stopPeriodicProcessing().catch((error) => {
+    logger.error('Error stopping processing', { error });
+  });
   res.json({ message: 'Processing stopped' });
 });
 
@@ -99,12 +141,28 @@ validateConfig();
 
 // Initialize processing state
 let isProcessing = false;
-let processingInterval: NodeJS.Timeout | null = null;
+
+// Independent worker pools so long video merges don't starve segment renders
+const videoWorkers = createWorkerPool({
+  name: 'video',
+  concurrency: config.processing.videoWorkerCount,
+  handler: processVideoHandler,
+  idleDelayMin: config.processing.idleBackoffMin,
+  idleDelayMax: config.processing.interval
+});
+
+const segmentWorkers = createWorkerPool({
+  name: 'segment',
+  concurrency: config.processing.segmentWorkerCount,
+  handler: processSegmentHandler,
+  idleDelayMin: config.processing.idleBackoffMin,
+  idleDelayMax: config.processing.interval
+});
 
 // Function to schedule periodic cleanup
-function schedulePeriodicCleanup() {
+function schedulePeriodicCleanup(): NodeJS.Timeout {
   const CLEANUP_INTERVAL = 24 * 60 * 60 * 1000; // 24 hours
-  setInterval(async () => {
+  const timer = setInterval(async () => {
     try {
       await cleanupTempFiles([
         path.join(config.paths.tempDir, config.paths.downloadsDir),
@@ -116,39 +174,28 @@ function schedulePeriodicCleanup() {
     }
   }, CLEANUP_INTERVAL);
   logger.info('Scheduled periodic cleanup');
+  return timer;
 }
 
 // Function to start periodic processing
 function startPeriodicProcessing() {
-  if (processingInterval) {
-    clearInterval(processingInterval);
-  }
-
   isProcessing = true;
-  processingInterval = setInterval(async () => {
-    for (let i = 0; i < config.processing.workerCount; i++) {
-      try {
-        await processVideoHandler();
-        await processSegmentHandler();
-      } catch (error) {
-        logger.error(`Worker ${i + 1} error`, { error });
-      }
-    }
-  }, config.processing.interval);
+  videoWorkers.start();
+  segmentWorkers.start();
 
   logger.info('Started periodic processing', {
-    workers: config.processing.workerCount,
-    interval: config.processing.interval
+    videoWorkers: config.processing.videoWorkerCount,
+    segmentWorkers: config.processing.segmentWorkerCount,
+    maxIdleBackoff: config.processing.interval
   });
 }
 
 // Function to stop periodic processing
-function stopPeriodicProcessing() {
-  if (processingInterval) {
-    clearInterval(processingInterval);
-    processingInterval = null;
-  }
+// Workers stop polling immediately; the returned promise resolves once in-flight jobs finish
+async function stopPeriodicProcessing(): Promise<void> {
   isProcessing = false;
+  logger.info('Stopping processing');
+  await Promise.all([videoWorkers.stop(), segmentWorkers.stop()]);
   logger.info('Stopped processing');
 }
 
@@ -156,18 +203,83 @@ function stopPeriodicProcessing() {
 
 // Start the server
 const PORT = config.server.port;
-app.listen(PORT, () => {
+let cleanupTimer: NodeJS.Timeout | undefined;
+const server = app.listen(PORT, () => {
   logger.info('Server started', {
     port: PORT,
-    workers: config.processing.workerCount,
+    videoWorkers: config.processing.videoWorkerCount,
+    segmentWorkers: config.processing.segmentWorkerCount,
     interval: config.processing.interval
   });
   
   // Schedule periodic cleanup
-  schedulePeriodicCleanup();
+  cleanupTimer = schedulePeriodicCleanup();
+  
+  // Re-queue (or give up on) video jobs a previous run was killed in the middle of
+  recoverInterruptedVideos()
+    .then(({ resumed, failed }) => {
+      if (resumed.length > 0 || failed.length > 0) {
+        logger.info('Recovered interrupted videos', { resumed, failed });
+      }
+    })
+    .catch((error) => {
+      logger.error('Error recovering interrupted videos', { error });
+    });
   
   // Auto-start processing if configured
   if (config.processing.autoStart) {
     startPeriodicProcessing();
   }
 });
+
+// How long children get to exit on SIGTERM, and jobs to wind down after that, before giving up on them
+const CHILD_KILL_TIMEOUT = 5000;
+const WIND_DOWN_TIMEOUT = 10000;
+
+function wait(ms: number): Promise<false> {
+  return new Promise((resolve) => setTimeout(() => resolve(false), ms).unref());
+}
+
+// Stop taking jobs, give in-flight ones the grace period to finish, then stop their
+// FFmpeg/Whisper children so the handlers return their messages, and close the HTTP server last
+async function shutdown(signal: NodeJS.Signals): Promise<void> {
+  if (isShuttingDown()) {
+    logger.warn('Received second shutdown signal, exiting immediately', { signal });
+    process.exit(1);
+  }
+
+  logger.info('Shutting down', { signal, gracePeriod: config.server.shutdownGracePeriod });
+  beginShutdown();
+  clearInterval(cleanupTimer);
+
+  const drained = stopPeriodicProcessing().then(() => true);
+  const finished = await Promise.race([drained, wait(config.server.shutdownGracePeriod * 1000)]);
+
+  if (!finished) {
+    const stopped = await terminateChildProcesses(CHILD_KILL_TIMEOUT);
+    logger.warn('Grace period over, stopped child processes', { stopped });
+    // Interrupted handlers return their messages and leave videos pending before exiting
+    if (!(await Promise.race([drained, wait(WIND_DOWN_TIMEOUT)]))) {
+      logger.warn('Jobs still running after shutdown, their leases will lapse', {
+        childProcesses: getChildProcessCount()
+      });
+    }
+  }
+
+  // Jobs that finished during shutdown may have just dispatched their webhooks
+  const undelivered = await flushWebhooks();
+  if (undelivered > 0) {
+    logger.warn('Webhook deliveries failed during shutdown', { undelivered });
+  }
+
+  await new Promise<void>((resolve) => {
+    server.close(() => resolve());
+    // Server-Sent Event streams never end on their own
+    server.closeAllConnections();
+  });
+  logger.info('Shutdown complete');
+  process.exit(0);
+}
+
+process.on('SIGTERM', () => shutdown('SIGTERM'));
+process.on('SIGINT', () => shutdown('SIGINT'));
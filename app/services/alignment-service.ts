@@ -0,0 +1,221 @@
+import { Transcript, TranscriptSegment, TranscriptWord } from "../types";
+import { countSyllables, splitSentences } from "./script-subtitle-service";
+
+// Shortest time given to a script word Whisper didn't hear, in seconds
+const MIN_WORD_DURATION = 0.12;
+
+// Outcome of aligning a transcript against the script
+export interface ScriptAlignment {
+  transcript: Transcript;
+  // 0-1: how closely the transcribed words matched the script
+  confidence: number;
+}
+
+// Lowercase letters and digits only, so "Zorblax," and "zorblax" compare equal
+function normalizeWord(word: string): string {
+  return word
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]/gu, "");
+}
+
+// Character-level edit distance between two words
+function levenshtein(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+// 1 for identical words, 0 for nothing in common
+function wordSimilarity(a: string, b: string): number {
+  if (a === b) return 1;
+  const longest = Math.max(a.length, b.length);
+  return longest === 0 ? 0 : 1 - levenshtein(a, b) / longest;
+}
+
+/**
+ * Split the script into sentences of words.
+ * Tokens with no letters or digits (e.g. a dash) are attached to the previous word.
+ */
+function tokenizeScript(script: string): string[][] {
+  return splitSentences(script)
+    .map((sentence) =>
+      sentence.split(" ").reduce<string[]>((words, token) => {
+        if (!normalizeWord(token) && words.length > 0) {
+          words[words.length - 1] += ` ${token}`;
+        } else {
+          words.push(token);
+        }
+        return words;
+      }, [])
+    )
+    .filter((sentence) => sentence.length > 0);
+}
+
+/**
+ * Word-level edit-distance alignment (Needleman-Wunsch).
+ * Substituting similar words is cheap, so a misspelt name still lines up with the script,
+ * while substituting unrelated words costs as much as skipping one on each side.
+ * @returns For each script word, the index of the transcribed word it lines up with (or -1)
+ */
+function alignWords(script: string[], heard: string[]): { matches: number[]; similarity: number } {
+  const n = script.length;
+  const m = heard.length;
+  const cost: number[][] = Array.from({ length: n + 1 }, () => new Array(m + 1).fill(0));
+  const similarities: number[][] = Array.from({ length: n }, () => new Array(m).fill(0));
+
+  for (let i = 0; i <= n; i++) cost[i][0] = i;
+  for (let j = 0; j <= m; j++) cost[0][j] = j;
+
+  for (let i = 1; i <= n; i++) {
+    for (let j = 1; j <= m; j++) {
+      const similarity = wordSimilarity(script[i - 1], heard[j - 1]);
+      similarities[i - 1][j - 1] = similarity;
+      cost[i][j] = Math.min(
+        cost[i - 1][j - 1] + 2 * (1 - similarity),
+        cost[i - 1][j] + 1, // script word not heard
+        cost[i][j - 1] + 1 // heard word not in the script
+      );
+    }
+  }
+
+  const matches = new Array(n).fill(-1);
+  let similarity = 0;
+  let i = n;
+  let j = m;
+  while (i > 0 && j > 0) {
+    const substitution = cost[i - 1][j - 1] + 2 * (1 - similarities[i - 1][j - 1]);
+    if (cost[i][j] === substitution) {
+      matches[i - 1] = j - 1;
+      similarity += similarities[i - 1][j - 1];
+      i--;
+      j--;
+    } else if (cost[i][j] === cost[i - 1][j] + 1) {
+      i--;
+    } else {
+      j--;
+    }
+  }
+
+  return { matches, similarity };
+}
+
+// Spread a run of words over [start, end] in proportion to their syllables
+function distribute(words: string[], start: number, end: number): { start: number; end: number }[] {
+  const weights = words.map((word) => countSyllables(word));
+  const total = weights.reduce((sum, weight) => sum + weight, 0);
+  let cursor = start;
+  return weights.map((weight) => {
+    const wordStart = cursor;
+    cursor += ((end - start) * weight) / total;
+    return { start: wordStart, end: cursor };
+  });
+}
+
+/**
+ * Rewrite a transcript with the script's words, spelling and punctuation,
+ * keeping the transcribed timings. Script words that weren't heard are timed
+ * between their neighbours; transcribed words that aren't in the script are dropped.
+ */
+export function alignTranscriptToScript(transcript: Transcript, script: string): ScriptAlignment {
+  const sentences = tokenizeScript(script);
+  const scriptWords = sentences.flat();
+  const heardWords = transcript.words.filter((word) => normalizeWord(word.word));
+
+  if (scriptWords.length === 0 || heardWords.length === 0) {
+    return { transcript, confidence: 0 };
+  }
+
+  const { matches, similarity } = alignWords(
+    scriptWords.map(normalizeWord),
+    heardWords.map((word) => normalizeWord(word.word))
+  );
+  const confidence = similarity / Math.max(scriptWords.length, heardWords.length);
+
+  // Timings for matched words, stretched over any extra transcribed words that follow them
+  // (e.g. a name heard as two words) up to the next matched word
+  const timings: ({ start: number; end: number } | null)[] = matches.map((j, i) => {
+    if (j < 0) return null;
+    const nextMatch = matches.slice(i + 1).find((k) => k >= 0) ?? heardWords.length;
+    return { start: heardWords[j].start, end: heardWords[nextMatch - 1].end };
+  });
+
+  // Fill runs of unheard script words from the gap around them,
+  // borrowing time from a neighbouring word when the gap is too short
+  const audioStart = heardWords[0].start;
+  const audioEnd = heardWords[heardWords.length - 1].end;
+  let i = 0;
+  while (i < timings.length) {
+    if (timings[i]) {
+      i++;
+      continue;
+    }
+
+    let runEnd = i;
+    while (runEnd < timings.length && !timings[runEnd]) runEnd++;
+
+    let first = i;
+    let last = runEnd - 1;
+    let start = i > 0 ? timings[i - 1]!.end : audioStart;
+    let end = runEnd < timings.length ? timings[runEnd]!.start : audioEnd;
+
+    if (end - start < MIN_WORD_DURATION * (runEnd - i)) {
+      if (i > 0) {
+        first = i - 1;
+        start = timings[first]!.start;
+      } else if (runEnd < timings.length) {
+        last = runEnd;
+        end = timings[last]!.end;
+      }
+    }
+
+    const spread = distribute(scriptWords.slice(first, last + 1), start, Math.max(start, end));
+    spread.forEach((timing, offset) => {
+      timings[first + offset] = timing;
+    });
+    i = runEnd;
+  }
+
+  let index = 0;
+  const segments: TranscriptSegment[] = sentences.map((sentence) => {
+    const words: TranscriptWord[] = sentence.map((word) => {
+      const timing = timings[index];
+      const j = matches[index];
+      index++;
+      return {
+        word,
+        start: timing!.start,
+        end: timing!.end,
+        probability: j >= 0 ? heardWords[j].probability : undefined,
+      };
+    });
+
+    return {
+      start: words[0].start,
+      end: words[words.length - 1].end,
+      text: sentence.join(" "),
+      words,
+    };
+  });
+
+  return {
+    transcript: {
+      ...transcript,
+      text: segments.map((segment) => segment.text).join(" "),
+      segments,
+      words: segments.flatMap((segment) => segment.words),
+    },
+    confidence,
+  };
+}
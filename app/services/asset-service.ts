@@ -0,0 +1,36 @@
+import fs from "fs";
+import path from "path";
+import { downloadFile } from "./ffmpeg-service";
+import { permanentError, temporaryError } from "../utils/errors";
+
+function isUrl(value: string): boolean {
+  return /^https?:\/\//i.test(value);
+}
+
+/**
+ * Local copy of a media asset (music, bumper clip, logo): URLs are downloaded into workDir
+ * as `<name>.<ext>`, anything else is a file name inside libraryDir
+ */
+export async function fetchAsset(
+  source: string,
+  libraryDir: string,
+  workDir: string,
+  name: string
+): Promise<string> {
+  if (isUrl(source)) {
+    const extension = path.extname(new URL(source).pathname);
+    const assetPath = path.join(workDir, `${name}${extension}`);
+    if (!(await downloadFile(source, assetPath))) {
+      throw temporaryError(`Failed to download ${name} from ${source}`, undefined, "download");
+    }
+    return assetPath;
+  }
+
+  const root = path.resolve(libraryDir);
+  const assetPath = path.resolve(root, source);
+  // Keep library names from reaching outside the library
+  if (!assetPath.startsWith(root + path.sep) || !fs.existsSync(assetPath)) {
+    throw permanentError(`${name} "${source}" was not found in ${root}`, undefined, "validate");
+  }
+  return assetPath;
+}
@@ -0,0 +1,74 @@
+import { config, WATERMARK_POSITIONS, WatermarkPosition } from "../config/config";
+import { WatermarkOverlay } from "./ffmpeg-service";
+import { fetchAsset } from "./asset-service";
+import { permanentError } from "../utils/errors";
+
+/**
+ * Branding a Video row can override through its `branding` column.
+ * Each field replaces the global setting; null turns that piece off for the video.
+ */
+export interface VideoBranding {
+  intro?: string | null;
+  outro?: string | null;
+  watermark?: {
+    image?: string | null;
+    position?: string;
+    scale?: number;
+    opacity?: number;
+    margin?: number;
+  } | null;
+}
+
+// Local files and settings for a video's branding
+export interface ResolvedBranding {
+  introPath: string | null;
+  outroPath: string | null;
+  watermark: { imagePath: string; overlay: WatermarkOverlay } | null;
+}
+
+// The Video's value when it sets one (including null), otherwise the global one
+function pick<T>(override: T | null | undefined, fallback: T): T | null {
+  return override === undefined ? fallback : override;
+}
+
+/**
+ * Fetch the intro, outro and watermark for a video, combining its `branding` column
+ * with the BRANDING_* and WATERMARK_* settings
+ */
+export async function resolveBranding(
+  branding: VideoBranding | null | undefined,
+  workDir: string
+): Promise<ResolvedBranding> {
+  const libraryDir = config.branding.libraryDir;
+  const intro = pick(branding?.intro, config.branding.intro);
+  const outro = pick(branding?.outro, config.branding.outro);
+
+  const watermarkSettings =
+    branding?.watermark === null ? null : { ...config.branding.watermark, ...branding?.watermark };
+  if (
+    watermarkSettings &&
+    !WATERMARK_POSITIONS.includes(watermarkSettings.position as WatermarkPosition)
+  ) {
+    throw permanentError(
+      `Unknown watermark position "${watermarkSettings.position}"`,
+      undefined,
+      "validate"
+    );
+  }
+
+  return {
+    introPath: intro ? await fetchAsset(intro, libraryDir, workDir, "intro") : null,
+    outroPath: outro ? await fetchAsset(outro, libraryDir, workDir, "outro") : null,
+    watermark: watermarkSettings?.image
+      ? {
+          imagePath: await fetchAsset(watermarkSettings.image, libraryDir, workDir, "watermark"),
+          overlay: {
+            position: watermarkSettings.position as WatermarkPosition,
+            scale: watermarkSettings.scale,
+            opacity: watermarkSettings.opacity,
+            margin: watermarkSettings.margin,
+          },
+        }
+      : null,
+  };
+}
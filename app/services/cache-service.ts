@@ -0,0 +1,443 @@
+import fs from "fs";
+import path from "path";
+import crypto from "crypto";
+import { Readable } from "stream";
+import { pipeline } from "stream/promises";
+import type { ReadableStream } from "stream/web";
+import { config } from "../config/config";
+import { logger } from "../utils/logger";
+
+// What a cache entry holds
+export type CacheNamespace = "download" | "transcript" | "segment";
+
+const CACHE_NAMESPACES: CacheNamespace[] = ["download", "transcript", "segment"];
+
+// An entry points a key at a content-addressed object; several keys may share one object
+interface CacheEntry {
+  namespace: CacheNamespace;
+  key: string;
+  // sha256 of the object's content
+  hash: string;
+  size: number;
+  lastAccess: number;
+  // HTTP validators of a downloaded URL
+  etag?: string;
+  lastModified?: string;
+}
+
+// Hit and miss counts of one namespace since the server started
+export interface CacheNamespaceStats {
+  hits: number;
+  misses: number;
+  hitRate: number;
+  entries: number;
+  sizeBytes: number;
+}
+
+export interface CacheStats {
+  enabled: boolean;
+  dir: string;
+  maxSizeBytes: number;
+  sizeBytes: number;
+  entries: number;
+  objects: number;
+  evictions: number;
+  namespaces: Record<CacheNamespace, CacheNamespaceStats>;
+}
+
+const INDEX_FILE = "index.json";
+
+let entries: Map<string, CacheEntry> | null = null;
+const counters = Object.fromEntries(
+  CACHE_NAMESPACES.map((namespace) => [namespace, { hits: 0, misses: 0 }])
+) as Record<CacheNamespace, { hits: number; misses: number }>;
+let evictions = 0;
+
+function entryId(namespace: CacheNamespace, key: string): string {
+  return `${namespace}:${key}`;
+}
+
+function objectPath(hash: string): string {
+  return path.join(config.cache.dir, "objects", hash.slice(0, 2), hash);
+}
+
+// Load the index on first use; entries whose object has gone missing are dropped
+function loadEntries(): Map<string, CacheEntry> {
+  if (entries) {
+    return entries;
+  }
+
+  entries = new Map();
+  const indexPath = path.join(config.cache.dir, INDEX_FILE);
+  try {
+    if (fs.existsSync(indexPath)) {
+      const saved: CacheEntry[] = JSON.parse(fs.readFileSync(indexPath, "utf-8"));
+      for (const entry of saved) {
+        if (fs.existsSync(objectPath(entry.hash))) {
+          entries.set(entryId(entry.namespace, entry.key), entry);
+        }
+      }
+    }
+  } catch (error) {
+    logger.warn("Cache index is unreadable, starting with an empty cache", { indexPath, error });
+  }
+  return entries;
+}
+
+// Write the index through a temp file so a crash never leaves it half-written
+function saveEntries(): void {
+  const indexPath = path.join(config.cache.dir, INDEX_FILE);
+  const tempPath = `${indexPath}.${process.pid}.tmp`;
+  fs.mkdirSync(config.cache.dir, { recursive: true });
+  fs.writeFileSync(tempPath, JSON.stringify(Array.from(loadEntries().values())));
+  fs.renameSync(tempPath, indexPath);
+}
+
+function record(namespace: CacheNamespace, hit: boolean): void {
+  counters[namespace][hit ? "hits" : "misses"]++;
+}
+
+// Objects are counted once, however many entries point at them
+function getObjectSizes(): Map<string, number> {
+  const sizes = new Map<string, number>();
+  for (const entry of loadEntries().values()) {
+    sizes.set(entry.hash, entry.size);
+  }
+  return sizes;
+}
+
+function totalSize(): number {
+  let total = 0;
+  for (const size of getObjectSizes().values()) {
+    total += size;
+  }
+  return total;
+}
+
+// Remove an entry and its object once nothing else points at it
+// @returns Bytes freed on disk
+function removeEntry(id: string): number {
+  const all = loadEntries();
+  const entry = all.get(id);
+  if (!entry) {
+    return 0;
+  }
+  all.delete(id);
+  const stillUsed = Array.from(all.values()).some((other) => other.hash === entry.hash);
+  if (stillUsed) {
+    return 0;
+  }
+  fs.rmSync(objectPath(entry.hash), { force: true });
+  return entry.size;
+}
+
+// Drop least recently used entries until the cache fits CACHE_MAX_SIZE_MB
+function evict(): void {
+  const maxSize = config.cache.maxSizeMB * 1024 * 1024;
+  let size = totalSize();
+  if (size <= maxSize) {
+    return;
+  }
+
+  const byAge = Array.from(loadEntries().entries()).sort(
+    ([, a], [, b]) => a.lastAccess - b.lastAccess
+  );
+  for (const [id] of byAge) {
+    if (size <= maxSize) {
+      break;
+    }
+    size -= removeEntry(id);
+    evictions++;
+  }
+}
+
+/**
+ * sha256 of a file's content
+ */
+export function hashFile(filePath: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const hash = crypto.createHash("sha256");
+    fs.createReadStream(filePath)
+      .on("data", (chunk) => hash.update(chunk))
+      .on("error", reject)
+      .on("end", () => resolve(hash.digest("hex")));
+  });
+}
+
+/**
+ * Stable cache key for a set of inputs
+ */
+export function hashKey(inputs: unknown): string {
+  return crypto.createHash("sha256").update(JSON.stringify(inputs)).digest("hex");
+}
+
+// Look up a live entry without counting a hit or miss
+function findEntry(namespace: CacheNamespace, key: string): CacheEntry | null {
+  const id = entryId(namespace, key);
+  const entry = loadEntries().get(id);
+  if (!entry) {
+    return null;
+  }
+  if (!fs.existsSync(objectPath(entry.hash))) {
+    removeEntry(id);
+    saveEntries();
+    return null;
+  }
+  return entry;
+}
+
+function touch(entry: CacheEntry): void {
+  entry.lastAccess = Date.now();
+  saveEntries();
+}
+
+// Copy an entry's object out of the cache. Another worker storing a file can evict it
+// between the lookup and the copy; the entry is then dropped and treated as a miss.
+async function copyObject(entry: CacheEntry, destinationPath: string): Promise<boolean> {
+  try {
+    await fs.promises.copyFile(objectPath(entry.hash), destinationPath);
+  } catch (error) {
+    logger.warn("Cached object is gone, dropping its entry", {
+      namespace: entry.namespace,
+      key: entry.key,
+      error,
+    });
+    const id = entryId(entry.namespace, entry.key);
+    if (loadEntries().get(id) === entry) {
+      removeEntry(id);
+      saveEntries();
+    }
+    return false;
+  }
+  touch(entry);
+  return true;
+}
+
+/**
+ * Store a file under a key. The content is copied into the cache (or moved, with `move`),
+ * so the caller may delete its copy.
+ */
+export async function putCachedFile(
+  namespace: CacheNamespace,
+  key: string,
+  sourcePath: string,
+  validators: Pick<CacheEntry, "etag" | "lastModified"> = {},
+  move = false
+): Promise<void> {
+  if (!config.cache.enabled) {
+    return;
+  }
+
+  try {
+    const hash = await hashFile(sourcePath);
+    const target = objectPath(hash);
+    if (!fs.existsSync(target)) {
+      fs.mkdirSync(path.dirname(target), { recursive: true });
+      // Copy next to the object first so readers never see a partial file
+      const tempPath = `${target}.${process.pid}.${crypto.randomBytes(4).toString("hex")}.tmp`;
+      if (move) {
+        await fs.promises.rename(sourcePath, tempPath).catch(() =>
+          fs.promises.copyFile(sourcePath, tempPath)
+        );
+      } else {
+        await fs.promises.copyFile(sourcePath, tempPath);
+      }
+      fs.renameSync(tempPath, target);
+    } else if (move) {
+      fs.rmSync(sourcePath, { force: true });
+    }
+
+    // Re-storing a key with new content (e.g. a re-rendered segment at the same URL) must
+    // not strand its old object, which would no longer be counted or evicted
+    const id = entryId(namespace, key);
+    if (loadEntries().get(id)?.hash !== hash) {
+      removeEntry(id);
+    }
+
+    loadEntries().set(id, {
+      namespace,
+      key,
+      hash,
+      size: fs.statSync(target).size,
+      lastAccess: Date.now(),
+      ...validators,
+    });
+    evict();
+    saveEntries();
+  } catch (error) {
+    // A cache that can't be written only costs time, so carry on without it
+    logger.warn("Failed to cache file", { namespace, key, error });
+  }
+}
+
+/**
+ * Copy a cached file to `destinationPath`
+ * @returns False on a miss
+ */
+export async function getCachedFile(
+  namespace: CacheNamespace,
+  key: string,
+  destinationPath: string
+): Promise<boolean> {
+  if (!config.cache.enabled) {
+    return false;
+  }
+
+  const entry = findEntry(namespace, key);
+  const hit = entry !== null && (await copyObject(entry, destinationPath));
+  record(namespace, hit);
+  return hit;
+}
+
+/**
+ * Store a JSON-serializable value under a key
+ */
+export async function putCachedJson(
+  namespace: CacheNamespace,
+  key: string,
+  value: unknown
+): Promise<void> {
+  if (!config.cache.enabled) {
+    return;
+  }
+  const tempPath = path.join(
+    config.cache.dir,
+    `${Date.now()}_${crypto.randomBytes(4).toString("hex")}.json`
+  );
+  fs.mkdirSync(config.cache.dir, { recursive: true });
+  fs.writeFileSync(tempPath, JSON.stringify(value));
+  await putCachedFile(namespace, key, tempPath, {}, true);
+}
+
+/**
+ * A cached JSON value, or null on a miss
+ * @param countLookup False when the lookup is part of one already counted
+ */
+export function getCachedJson<T>(
+  namespace: CacheNamespace,
+  key: string,
+  countLookup = true
+): T | null {
+  if (!config.cache.enabled) {
+    return null;
+  }
+
+  const entry = findEntry(namespace, key);
+  let value: T | null = null;
+  if (entry) {
+    try {
+      value = JSON.parse(fs.readFileSync(objectPath(entry.hash), "utf-8"));
+      touch(entry);
+    } catch (error) {
+      logger.warn("Dropping unreadable cache entry", { namespace, key, error });
+      removeEntry(entryId(namespace, key));
+      saveEntries();
+    }
+  }
+  if (countLookup) {
+    record(namespace, value !== null);
+  }
+  return value;
+}
+
+/**
+ * Download a URL to `destinationPath` through the cache. A cached copy is revalidated
+ * with its ETag/Last-Modified, so an unchanged file is not transferred again.
+ * @returns Whether the cached copy was used
+ */
+export async function downloadThroughCache(
+  url: string,
+  destinationPath: string
+): Promise<boolean> {
+  const cached = config.cache.enabled ? findEntry("download", url) : null;
+  const headers: Record<string, string> = {};
+  if (cached?.etag) {
+    headers["If-None-Match"] = cached.etag;
+  }
+  if (cached?.lastModified) {
+    headers["If-Modified-Since"] = cached.lastModified;
+  }
+
+  const response = await fetch(url, { headers });
+  if (cached && response.status === 304) {
+    if (await copyObject(cached, destinationPath)) {
+      record("download", true);
+      return true;
+    }
+    // The entry has been dropped, so this downloads without validators
+    return downloadThroughCache(url, destinationPath);
+  }
+  if (!response.ok || !response.body) {
+    throw new Error(`Failed to download file: ${response.status} ${response.statusText}`);
+  }
+
+  // Stream to disk; segment videos and music beds are too large to buffer in memory
+  await pipeline(
+    Readable.fromWeb(response.body as ReadableStream<Uint8Array>),
+    fs.createWriteStream(destinationPath)
+  );
+  if (config.cache.enabled) {
+    record("download", false);
+    const etag = response.headers.get("etag");
+    const lastModified = response.headers.get("last-modified");
+    // Without validators there is no way to tell whether the file changed, so don't keep it
+    if (etag || lastModified) {
+      await putCachedFile("download", url, destinationPath, {
+        etag: etag || undefined,
+        lastModified: lastModified || undefined,
+      });
+    }
+  }
+  return false;
+}
+
+/**
+ * Size, entry counts and hit/miss counts since the server started
+ */
+export function getCacheStats(): CacheStats {
+  const all = Array.from(loadEntries().values());
+  const namespaces = Object.fromEntries(
+    CACHE_NAMESPACES.map((namespace) => {
+      const { hits, misses } = counters[namespace];
+      const inNamespace = all.filter((entry) => entry.namespace === namespace);
+      return [
+        namespace,
+        {
+          hits,
+          misses,
+          hitRate: hits + misses > 0 ? Number((hits / (hits + misses)).toFixed(3)) : 0,
+          entries: inNamespace.length,
+          sizeBytes: inNamespace.reduce((total, entry) => total + entry.size, 0),
+        },
+      ];
+    })
+  ) as Record<CacheNamespace, CacheNamespaceStats>;
+
+  return {
+    enabled: config.cache.enabled,
+    dir: config.cache.dir,
+    maxSizeBytes: config.cache.maxSizeMB * 1024 * 1024,
+    sizeBytes: totalSize(),
+    entries: all.length,
+    objects: getObjectSizes().size,
+    evictions,
+    namespaces,
+  };
+}
+
+/**
+ * Remove every entry, or only those of one namespace
+ * @returns Number of entries removed
+ */
+export function clearCache(namespace?: CacheNamespace): number {
+  const ids = Array.from(loadEntries().entries())
+    .filter(([, entry]) => !namespace || entry.namespace === namespace)
+    .map(([id]) => id);
+  ids.forEach(removeEntry);
+  saveEntries();
+  return ids.length;
+}
+
+export function isCacheNamespace(value: unknown): value is CacheNamespace {
+  return CACHE_NAMESPACES.includes(value as CacheNamespace);
+}
@@ -0,0 +1,247 @@
+import fs from "fs";
+import path from "path";
+import { config, CaptionMode, CaptionPosition } from "../config/config";
+import { permanentError } from "../utils/errors";
+import { KaraokeOptions, toAssColor } from "./subtitle-service";
+
+/**
+ * The look of burned-in captions. Sizes are in pixels on a 1080p frame and scaled
+ * with the output's shorter side; margins are fractions of the frame (the caption safe area).
+ */
+export interface CaptionProfile {
+  name: string;
+  mode: CaptionMode;
+  fontFamily: string;
+  fontSize: number;
+  bold: boolean;
+  // #RRGGBB colors
+  primaryColor: string;
+  outlineColor: string;
+  outline: number;
+  shadow: number;
+  // Draw an opaque box behind the text instead of an outline
+  box: boolean;
+  boxColor: string;
+  boxOpacity: number; // 0-1
+  position: CaptionPosition;
+  safeAreaX: number;
+  safeAreaY: number;
+  // Longest SRT caption line in characters
+  maxLineLength: number;
+  // Karaoke mode only
+  highlightColor: string;
+  popScale: number;
+  popDuration: number;
+  maxWordsPerLine: number;
+}
+
+// Shorter side of the frame the profile's pixel sizes are given at
+const REFERENCE_SIZE = 1080;
+
+// Aspect ratio maxLineLength is given for
+const REFERENCE_ASPECT = 16 / 9;
+
+// Profile sizes are scaled with the shorter side so captions keep their weight on vertical frames
+function getScale(width: number, height: number): number {
+  return Math.min(width, height) / REFERENCE_SIZE;
+}
+
+// ASS numpad alignment for each caption position (always horizontally centered)
+const SRT_ALIGNMENT: Record<CaptionPosition, number> = {
+  bottom: 2,
+  middle: 5,
+  top: 8,
+};
+
+// The look segments have always been rendered with, and the CAPTION_* settings
+function getDefaultProfile(): CaptionProfile {
+  const { position, safeAreaX, safeAreaY, ...karaoke } = config.captions.karaoke;
+  const isKaraoke = config.captions.mode === "karaoke";
+
+  return {
+    name: "default",
+    mode: config.captions.mode,
+    fontFamily: "Arial",
+    fontSize: isKaraoke ? 80 : 75,
+    bold: false,
+    primaryColor: "#FFFFFF",
+    outlineColor: "#000000",
+    outline: isKaraoke ? 4 : 2,
+    shadow: 0,
+    box: !isKaraoke,
+    boxColor: "#000000",
+    boxOpacity: 1,
+    position,
+    // SRT captions keep their 200px side and 50px bottom margins at 1920x1080
+    safeAreaX: isKaraoke ? safeAreaX : 0.104,
+    safeAreaY: isKaraoke ? safeAreaY : 0.046,
+    maxLineLength: 42,
+    ...karaoke,
+  };
+}
+
+// Profiles available without a profiles file
+const BUILT_IN_PROFILES: Record<string, Partial<CaptionProfile>> = {
+  // Big word-by-word captions in the middle of the frame for Shorts/TikTok/Reels
+  shorts: {
+    mode: "karaoke",
+    fontSize: 96,
+    bold: true,
+    box: false,
+    outline: 5,
+    shadow: 2,
+    position: "middle",
+    safeAreaX: 0.1,
+    safeAreaY: 0.12,
+    maxWordsPerLine: 3,
+  },
+  // Small outlined lines without a box
+  minimal: {
+    mode: "srt",
+    fontSize: 56,
+    box: false,
+    outline: 3,
+    safeAreaY: 0.06,
+    maxLineLength: 48,
+  },
+};
+
+let profiles: Map<string, CaptionProfile> | null = null;
+
+/**
+ * Load the built-in profiles plus those in CAPTION_PROFILES_FILE.
+ * The file holds an object of profile name to settings; anything left out comes from the default profile.
+ */
+function loadProfiles(): Map<string, CaptionProfile> {
+  if (profiles) {
+    return profiles;
+  }
+
+  let fileDefinitions: Record<string, Partial<CaptionProfile>> = {};
+  if (config.captions.profilesFile) {
+    try {
+      fileDefinitions = JSON.parse(fs.readFileSync(config.captions.profilesFile, "utf-8"));
+    } catch (error: any) {
+      throw new Error(
+        `Failed to load caption profiles from ${config.captions.profilesFile}: ${error?.message || error}`
+      );
+    }
+  }
+
+  // The file may also adjust the default profile, which every other profile builds on
+  const { default: defaultOverrides, ...definitions } = {
+    ...BUILT_IN_PROFILES,
+    ...fileDefinitions,
+  };
+  const defaults: CaptionProfile = {
+    ...getDefaultProfile(),
+    ...defaultOverrides,
+    name: "default",
+  };
+
+  const loaded = new Map<string, CaptionProfile>([["default", defaults]]);
+  for (const [name, definition] of Object.entries(definitions)) {
+    loaded.set(name, { ...defaults, ...definition, name });
+  }
+
+  profiles = loaded;
+  return profiles;
+}
+
+/**
+ * Every available caption profile, default first
+ */
+export function listCaptionProfiles(): CaptionProfile[] {
+  return Array.from(loadProfiles().values());
+}
+
+/**
+ * Look up a caption profile, falling back to CAPTION_PROFILE when no name is given
+ */
+export function getCaptionProfile(name?: string | null): CaptionProfile {
+  const profileName = name || config.captions.profile;
+  const profile = loadProfiles().get(profileName);
+  if (!profile) {
+    throw permanentError(
+      `Unknown caption profile "${profileName}"`,
+      undefined,
+      "validate"
+    );
+  }
+  return profile;
+}
+
+/**
+ * FFmpeg force_style for rendering SRT captions with a profile
+ */
+export function toForceStyle(profile: CaptionProfile, width: number, height: number): string {
+  const scale = getScale(width, height);
+  const boxAlpha = Math.round((1 - profile.boxOpacity) * 255);
+
+  return [
+    `Alignment=${SRT_ALIGNMENT[profile.position]}`,
+    `PlayResX=${width}`,
+    `PlayResY=${height}`,
+    `FontName=${profile.fontFamily}`,
+    `FontSize=${Math.round(profile.fontSize * scale)}`,
+    `Bold=${profile.bold ? -1 : 0}`,
+    `PrimaryColour=${toAssColor(profile.primaryColor)}`,
+    // libass paints the opaque box with the outline color
+    `OutlineColour=${
+      profile.box ? toAssColor(profile.boxColor, boxAlpha) : toAssColor(profile.outlineColor)
+    }`,
+    `BorderStyle=${profile.box ? 3 : 1}`,
+    `Outline=${profile.outline}`,
+    `Shadow=${profile.shadow}`,
+    "LineSpacing=0",
+    `MarginL=${Math.round(width * profile.safeAreaX)}`,
+    `MarginR=${Math.round(width * profile.safeAreaX)}`,
+    `MarginV=${Math.round(height * profile.safeAreaY)}`,
+  ].join(",");
+}
+
+/**
+ * Longest SRT caption line that fits the frame. maxLineLength is given for 16:9,
+ * so narrower frames get proportionally shorter lines.
+ */
+export function getMaxLineLength(profile: CaptionProfile, width: number, height: number): number {
+  const widthInReferenceUnits = width / Math.min(width, height);
+  const ratio = Math.min(1, widthInReferenceUnits / REFERENCE_ASPECT);
+  return Math.max(12, Math.round(profile.maxLineLength * ratio));
+}
+
+/**
+ * Karaoke ASS settings for rendering a profile at the given frame size
+ */
+export function toKaraokeOptions(
+  profile: CaptionProfile,
+  width: number,
+  height: number
+): KaraokeOptions {
+  return {
+    width,
+    height,
+    fontName: profile.fontFamily,
+    fontSize: Math.round(profile.fontSize * getScale(width, height)),
+    bold: profile.bold,
+    textColor: profile.primaryColor,
+    highlightColor: profile.highlightColor,
+    outlineColor: profile.outlineColor,
+    outline: profile.outline,
+    shadow: profile.shadow,
+    popScale: profile.popScale,
+    popDuration: profile.popDuration,
+    maxWordsPerLine: profile.maxWordsPerLine,
+    position: profile.position,
+    safeAreaX: profile.safeAreaX,
+    safeAreaY: profile.safeAreaY,
+  };
+}
+
+/**
+ * Directory of bundled fonts handed to libass, if it exists
+ */
+export function getFontsDir(): string | undefined {
+  const fontsDir = path.resolve(config.captions.fontsDir);
+  return fs.existsSync(fontsDir) ? fontsDir : undefined;
+}
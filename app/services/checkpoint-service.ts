@@ -0,0 +1,350 @@
+import os from 'os';
+import { config } from '../config/config';
+import { supabasePublic } from './supabase';
+import { QueueMessage, sendMessage, setVisibilityTimeout } from './queue-service';
+import { settleFailedMessage } from './dead-letter-service';
+import { dispatchWebhook } from './webhook-service';
+import { permanentError, temporaryError } from '../utils/errors';
+import { logger } from '../utils/logger';
+import type { VideoArtifacts } from './video-processor';
+
+// Steps of a video job that are saved once done, in the order they run
+export type VideoCheckpointStage = 'segments' | 'merged' | 'subtitles' | 'hls' | 'previews';
+
+// The queue message a video job was started from, kept so an interrupted job can be re-queued
+export interface CheckpointMessage {
+  msgId: number;
+  queueName: string;
+  payload: Record<string, any>;
+}
+
+// The finalized MP4 once it has been merged and uploaded
+export interface MergedCheckpoint {
+  videoURL: string;
+  duration: number;
+  introDuration: number;
+  outroDuration: number;
+  // Segments in merge order and where each merged clip (bumpers included) starts
+  segmentIds: string[];
+  offsets: number[];
+  hasIntro: boolean;
+}
+
+// Progress of a video job, stored in the Video's checkpoint column
+export interface VideoCheckpoint {
+  // Fingerprint of the segments and settings; a different one means starting over
+  settingsHash: string;
+  message?: CheckpointMessage;
+  // Process running the job; null while it waits for a retry
+  owner: { host: string; pid: number } | null;
+  startedAt: string;
+  // Refreshed every CHECKPOINT_HEARTBEAT_INTERVAL seconds while the job runs
+  updatedAt: string;
+  // Times the job was picked up again after being interrupted
+  resumes: number;
+  // Segment id to the video URL rendered and uploaded for it
+  segments: Record<string, string>;
+  merged?: MergedCheckpoint;
+  artifacts: VideoArtifacts;
+  completed: VideoCheckpointStage[];
+}
+
+// Handle for saving a running job's checkpoint
+export interface CheckpointTracker {
+  checkpoint: VideoCheckpoint;
+  isComplete: (stage: VideoCheckpointStage) => boolean;
+  // Apply a change and save it; saves run one at a time in call order
+  update: (change: (checkpoint: VideoCheckpoint) => void) => Promise<void>;
+  complete: (stage: VideoCheckpointStage, change?: (checkpoint: VideoCheckpoint) => void) => Promise<void>;
+  // Keep the checkpoint for the next attempt
+  release: () => Promise<void>;
+  // Remove the checkpoint once the job has succeeded or been given up on
+  finish: () => Promise<void>;
+}
+
+// What the startup scan did with each interrupted job
+export interface RecoveryResult {
+  resumed: string[];
+  failed: string[];
+}
+
+function getClient() {
+  if (!supabasePublic) {
+    throw temporaryError('Supabase client is not initialized', undefined, 'db_update');
+  }
+  return supabasePublic;
+}
+
+function currentOwner(): VideoCheckpoint['owner'] {
+  return { host: os.hostname(), pid: process.pid };
+}
+
+async function saveCheckpoint(videoId: string, checkpoint: VideoCheckpoint | null): Promise<void> {
+  const { error } = await getClient()
+    .from('Video')
+    .update({ checkpoint })
+    .eq('id', videoId);
+
+  if (error) {
+    throw temporaryError(`Failed to save checkpoint of video ${videoId}: ${error.message}`, error, 'db_update');
+  }
+}
+
+/**
+ * The saved checkpoint of a video, if it has one
+ */
+export async function loadVideoCheckpoint(videoId: string): Promise<VideoCheckpoint | null> {
+  if (!config.checkpoints.enabled) {
+    return null;
+  }
+
+  const { data, error } = await getClient()
+    .from('Video')
+    .select('checkpoint')
+    .eq('id', videoId)
+    .maybeSingle();
+
+  if (error) {
+    throw temporaryError(`Failed to load checkpoint of video ${videoId}: ${error.message}`, error, 'validate');
+  }
+  return (data?.checkpoint as VideoCheckpoint) || null;
+}
+
+/**
+ * Take ownership of a video job's checkpoint and keep it fresh while the job runs.
+ * A saved checkpoint is carried on only when it was made with the same settings.
+ */
+export function startVideoCheckpoint(
+  videoId: string,
+  settingsHash: string,
+  saved: VideoCheckpoint | null,
+  message?: CheckpointMessage
+): CheckpointTracker {
+  const now = new Date().toISOString();
+  const resumable = saved?.settingsHash === settingsHash ? saved : null;
+  const checkpoint: VideoCheckpoint = resumable
+    ? { ...resumable, message: message || resumable.message, owner: currentOwner(), updatedAt: now }
+    : {
+        settingsHash,
+        message,
+        owner: currentOwner(),
+        startedAt: now,
+        updatedAt: now,
+        resumes: saved?.resumes || 0,
+        segments: {},
+        artifacts: {},
+        completed: []
+      };
+
+  if (saved && !resumable) {
+    logger.info('Video settings changed since the last checkpoint, starting over', { videoId });
+  } else if (resumable) {
+    logger.info('Resuming video from checkpoint', {
+      videoId,
+      completed: resumable.completed,
+      segments: Object.keys(resumable.segments).length
+    });
+  }
+
+  // Checkpoint writes never fail the job; the worst case is redoing a stage
+  let pending = Promise.resolve();
+  const save = (value: VideoCheckpoint | null): Promise<void> => {
+    if (!config.checkpoints.enabled) {
+      return Promise.resolve();
+    }
+    pending = pending
+      .then(() => saveCheckpoint(videoId, value))
+      .catch((error) => {
+        logger.warn('Failed to save video checkpoint', { videoId, error });
+      });
+    return pending;
+  };
+
+  const heartbeat = setInterval(() => {
+    checkpoint.updatedAt = new Date().toISOString();
+    save(checkpoint);
+  }, config.checkpoints.heartbeatInterval * 1000);
+
+  const update = (change: (checkpoint: VideoCheckpoint) => void): Promise<void> => {
+    change(checkpoint);
+    checkpoint.updatedAt = new Date().toISOString();
+    return save(checkpoint);
+  };
+
+  save(checkpoint);
+
+  return {
+    checkpoint,
+    isComplete: (stage) => checkpoint.completed.includes(stage),
+    update,
+    complete: (stage, change) =>
+      update((current) => {
+        change?.(current);
+        if (!current.completed.includes(stage)) {
+          current.completed.push(stage);
+        }
+      }),
+    release: () => {
+      clearInterval(heartbeat);
+      return update((current) => {
+        current.owner = null;
+      });
+    },
+    finish: () => {
+      clearInterval(heartbeat);
+      return save(null);
+    }
+  };
+}
+
+// A job was interrupted if its process is gone: a dead pid on this host, or a stale heartbeat
+function isInterrupted(checkpoint: VideoCheckpoint): boolean {
+  if (!checkpoint.owner) {
+    return false;
+  }
+
+  if (checkpoint.owner.host === os.hostname() && checkpoint.owner.pid !== process.pid) {
+    try {
+      process.kill(checkpoint.owner.pid, 0);
+    } catch {
+      return true;
+    }
+  }
+
+  const age = Date.now() - new Date(checkpoint.updatedAt).getTime();
+  return age > config.checkpoints.staleAfter * 1000;
+}
+
+// Claim an interrupted checkpoint, so when several servers start at once only one acts on it
+async function claimCheckpoint(
+  videoId: string,
+  checkpoint: VideoCheckpoint,
+  claimed: VideoCheckpoint
+): Promise<boolean> {
+  const { data, error } = await getClient()
+    .from('Video')
+    .update({ checkpoint: claimed })
+    .eq('id', videoId)
+    .eq('checkpoint->>updatedAt', checkpoint.updatedAt)
+    .select('id');
+
+  if (error) {
+    throw error;
+  }
+  return Boolean(data && data.length > 0);
+}
+
+// Make the job's message visible now, or send it again if it has left the queue
+async function requeue(message: CheckpointMessage): Promise<number> {
+  if (await setVisibilityTimeout(message.msgId, 0, message.queueName)) {
+    return message.msgId;
+  }
+  return sendMessage(message.queueName, message.payload);
+}
+
+// Give up on a job that keeps getting interrupted, or can't be re-queued, the same way a
+// failed message is given up on
+async function failInterrupted(videoId: string, checkpoint: VideoCheckpoint): Promise<void> {
+  const reason = checkpoint.message
+    ? `was interrupted ${checkpoint.resumes + 1} times`
+    : 'was interrupted and has no queue message to resume from';
+  const error = permanentError(
+    `Video ${videoId} ${reason}, giving up`,
+    undefined,
+    checkpoint.completed.includes('segments') ? 'render' : undefined
+  );
+
+  if (checkpoint.message) {
+    const message: QueueMessage = {
+      msg_id: checkpoint.message.msgId,
+      read_ct: checkpoint.resumes + 1,
+      enqueued_at: checkpoint.startedAt,
+      vt: checkpoint.updatedAt,
+      message: checkpoint.message.payload
+    };
+    await settleFailedMessage(message, error, checkpoint.message.queueName);
+  }
+
+  const { error: updateError } = await getClient()
+    .from('Video')
+    .update({ status: 'failed', checkpoint: null })
+    .eq('id', videoId);
+  if (updateError) {
+    throw updateError;
+  }
+
+  dispatchWebhook('video.failed', {
+    videoId,
+    status: 'failed',
+    error: error.message
+  });
+}
+
+/**
+ * Find video jobs that were running when their process died and either re-queue them
+ * to resume from their checkpoint or, after CHECKPOINT_MAX_RESUMES resumes, fail them
+ */
+export async function recoverInterruptedVideos(): Promise<RecoveryResult> {
+  const result: RecoveryResult = { resumed: [], failed: [] };
+  if (!config.checkpoints.enabled) {
+    return result;
+  }
+
+  const { data: videos, error } = await getClient()
+    .from('Video')
+    .select('id, checkpoint')
+    .eq('status', 'pending')
+    .not('checkpoint', 'is', null);
+
+  if (error) {
+    throw error;
+  }
+
+  for (const video of videos || []) {
+    const checkpoint = video.checkpoint as VideoCheckpoint;
+    if (!isInterrupted(checkpoint)) {
+      continue;
+    }
+
+    try {
+      const giveUp = checkpoint.resumes >= config.checkpoints.maxResumes;
+      const claimed: VideoCheckpoint = {
+        ...checkpoint,
+        owner: null,
+        resumes: checkpoint.resumes + 1,
+        updatedAt: new Date().toISOString()
+      };
+      if (!(await claimCheckpoint(video.id, checkpoint, claimed))) {
+        continue;
+      }
+
+      // Without the message it was started from there is nothing to re-queue
+      if (giveUp || !claimed.message) {
+        await failInterrupted(video.id, checkpoint);
+        result.failed.push(video.id);
+        logger.warn('Failed interrupted video', {
+          videoId: video.id,
+          resumes: checkpoint.resumes,
+          requeueable: Boolean(claimed.message)
+        });
+        continue;
+      }
+
+      const msgId = await requeue(claimed.message);
+      if (msgId !== claimed.message.msgId) {
+        claimed.message = { ...claimed.message, msgId };
+        await saveCheckpoint(video.id, claimed);
+      }
+      result.resumed.push(video.id);
+      logger.info('Re-queued interrupted video', {
+        videoId: video.id,
+        resumes: claimed.resumes,
+        completed: checkpoint.completed
+      });
+    } catch (recoveryError) {
+      logger.error('Failed to recover interrupted video', { videoId: video.id, error: recoveryError });
+    }
+  }
+
+  return result;
+}
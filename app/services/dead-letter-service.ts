@@ -0,0 +1,295 @@
+import { config } from '../config/config';
+import {
+  QueueMessage,
+  archiveMessage,
+  deleteMessage,
+  getMessage,
+  hasExhaustedRetries,
+  readMessages,
+  scheduleRetry,
+  sendMessage,
+  setVisibilityTimeout
+} from './queue-service';
+import { ProcessingError, classifyError } from '../utils/errors';
+import { ErrorType, ProcessingStage } from '../types';
+import { logger } from '../utils/logger';
+
+// Maximum number of messages browsed from the dead-letter queue at once
+const DLQ_BATCH_SIZE = 100;
+
+// Failure details recorded alongside the original payload
+export interface DeadLetterFailure {
+  class: string;
+  message: string;
+  stack?: string;
+  type: ErrorType;
+  stage?: ProcessingStage;
+  cause?: {
+    class: string;
+    message: string;
+  };
+}
+
+// Body of a message sent to the dead-letter queue
+export interface DeadLetterPayload {
+  sourceQueue: string;
+  sourceMsgId: number;
+  payload: any;
+  error: DeadLetterFailure;
+  attempts: number;
+  enqueuedAt: string;
+  failedAt: string;
+}
+
+// Outcome of settling a message whose processing failed
+export interface FailureOutcome {
+  errorType: ErrorType;
+  retried: boolean;
+  retryDelay?: number;
+  deadLettered: boolean;
+}
+
+// Outcome of moving dead-lettered messages back to the main queue
+export interface RedriveResult {
+  dlqMsgId: number;
+  newMsgId: number;
+}
+
+// A dead-lettered message that couldn't be re-driven and is still in the dead-letter queue
+export interface RedriveFailure {
+  dlqMsgId: number;
+  error: string;
+}
+
+// Outcome of re-driving the whole dead-letter queue
+export interface RedriveAllResult {
+  redriven: RedriveResult[];
+  failed: RedriveFailure[];
+}
+
+/**
+ * Capture the class, message and stack of an error (and its cause) in a serializable shape
+ */
+function describeError(error: unknown): DeadLetterFailure {
+  const err = error instanceof Error ? error : new Error(String(error));
+  const failure: DeadLetterFailure = {
+    class: err.constructor?.name || err.name,
+    message: err.message,
+    stack: err.stack,
+    type: classifyError(error)
+  };
+
+  if (error instanceof ProcessingError) {
+    failure.stage = error.stage;
+    if (error.cause) {
+      const cause = error.cause as any;
+      failure.cause = {
+        class: cause?.constructor?.name || 'Unknown',
+        message: cause?.message || String(cause)
+      };
+    }
+  }
+
+  return failure;
+}
+
+/**
+ * Send a failed message, with the reason it failed, to the dead-letter queue
+ */
+export async function sendToDeadLetter(
+  message: QueueMessage,
+  error: unknown,
+  sourceQueue: string = config.queue.name
+): Promise<number> {
+  const deadLetter: DeadLetterPayload = {
+    sourceQueue,
+    sourceMsgId: message.msg_id,
+    payload: message.message,
+    error: describeError(error),
+    attempts: message.read_ct,
+    enqueuedAt: message.enqueued_at,
+    failedAt: new Date().toISOString()
+  };
+
+  const dlqMsgId = await sendMessage(config.deadLetter.queueName, deadLetter);
+
+  logger.warn('Message moved to dead-letter queue', {
+    sourceQueue,
+    sourceMsgId: message.msg_id,
+    dlqMsgId,
+    stage: deadLetter.error.stage,
+    attempts: deadLetter.attempts
+  });
+
+  return dlqMsgId;
+}
+
+/**
+ * Decide what happens to a message whose processing failed.
+ * Temporary errors are retried with backoff until maxReadCount is reached,
+ * permanent errors (and exhausted retries) are dead-lettered and archived.
+ */
+export async function settleFailedMessage(
+  message: QueueMessage,
+  error: unknown,
+  queueName: string = config.queue.name
+): Promise<FailureOutcome> {
+  const errorType = classifyError(error);
+
+  if (errorType === ErrorType.TEMPORARY && !hasExhaustedRetries(message)) {
+    const retryDelay = await scheduleRetry(message, queueName);
+    logger.warn('Scheduled message retry', {
+      msgId: message.msg_id,
+      attempt: message.read_ct,
+      maxReadCount: config.queue.maxReadCount,
+      retryDelay
+    });
+    return { errorType, retried: true, retryDelay, deadLettered: false };
+  }
+
+  // Record the failure before archiving so a DLQ outage doesn't lose it:
+  // if sending fails the message stays leased and is read again later
+  let deadLettered = false;
+  if (config.deadLetter.enabled) {
+    await sendToDeadLetter(message, error, queueName);
+    deadLettered = true;
+  }
+
+  await archiveMessage(message.msg_id, queueName);
+  logger.error('Giving up on message', {
+    msgId: message.msg_id,
+    attempt: message.read_ct,
+    errorType
+  });
+  return { errorType, retried: false, deadLettered };
+}
+
+/**
+ * List messages currently in the dead-letter queue
+ */
+export async function listDeadLetters(
+  limit: number = DLQ_BATCH_SIZE
+): Promise<QueueMessage<DeadLetterPayload>[]> {
+  return readMessages<DeadLetterPayload>(config.deadLetter.queueName, limit);
+}
+
+/**
+ * Find a single dead-lettered message by its id
+ */
+export async function getDeadLetter(
+  msgId: number
+): Promise<QueueMessage<DeadLetterPayload> | null> {
+  return getMessage<DeadLetterPayload>(msgId, config.deadLetter.queueName);
+}
+
+/**
+ * Send a dead-lettered message's original payload back to its source queue.
+ * If it can't be removed from the dead-letter queue afterwards, the copy sent to the
+ * source queue is withdrawn so the job doesn't end up both queued and dead-lettered.
+ */
+async function redrive(
+  message: QueueMessage<DeadLetterPayload>
+): Promise<RedriveResult> {
+  const targetQueue = message.message.sourceQueue || config.queue.name;
+  const newMsgId = await sendMessage(targetQueue, message.message.payload);
+
+  try {
+    await deleteMessage(message.msg_id, config.deadLetter.queueName);
+  } catch (error) {
+    try {
+      await deleteMessage(newMsgId, targetQueue);
+    } catch (rollbackError) {
+      logger.error('Re-driven message is now both queued and dead-lettered', {
+        dlqMsgId: message.msg_id,
+        targetQueue,
+        newMsgId,
+        error: rollbackError
+      });
+    }
+    throw error;
+  }
+
+  logger.info('Re-drove dead-lettered message', {
+    dlqMsgId: message.msg_id,
+    targetQueue,
+    newMsgId
+  });
+
+  return { dlqMsgId: message.msg_id, newMsgId };
+}
+
+/**
+ * Re-drive a single dead-lettered message, returning null if it doesn't exist
+ */
+export async function redriveDeadLetter(
+  msgId: number
+): Promise<RedriveResult | null> {
+  const message = await getDeadLetter(msgId);
+  if (!message) {
+    return null;
+  }
+  return redrive(message);
+}
+
+/**
+ * Re-drive every dead-lettered message back to its source queue.
+ * A message that fails is left in the dead-letter queue and reported; the rest carry on.
+ */
+export async function redriveAllDeadLetters(): Promise<RedriveAllResult> {
+  const result: RedriveAllResult = { redriven: [], failed: [] };
+  const queueName = config.deadLetter.queueName;
+  const read = () => readMessages<DeadLetterPayload>(queueName, DLQ_BATCH_SIZE, config.queue.visibilityTimeout);
+
+  // Messages are hidden while this pass reads them, so the ones that fail aren't read
+  // again and it ends once the rest have been removed from the DLQ
+  let batch = await read();
+  while (batch.length > 0) {
+    for (const message of batch) {
+      try {
+        result.redriven.push(await redrive(message));
+      } catch (error) {
+        logger.error('Failed to re-drive dead-lettered message', { dlqMsgId: message.msg_id, error });
+        result.failed.push({
+          dlqMsgId: message.msg_id,
+          error: error instanceof Error ? error.message : String(error)
+        });
+      }
+    }
+    batch = await read();
+  }
+
+  // Make the messages that failed visible again
+  for (const failure of result.failed) {
+    await setVisibilityTimeout(failure.dlqMsgId, 0, queueName).catch((error) => {
+      logger.warn('Failed to reset visibility of dead-lettered message', { dlqMsgId: failure.dlqMsgId, error });
+    });
+  }
+
+  return result;
+}
+
+/**
+ * Delete a single message from the dead-letter queue
+ */
+export async function deleteDeadLetter(msgId: number): Promise<void> {
+  await deleteMessage(msgId, config.deadLetter.queueName);
+}
+
+/**
+ * Delete every message in the dead-letter queue, returning how many were removed
+ */
+export async function purgeDeadLetters(): Promise<number> {
+  let purged = 0;
+
+  let batch = await listDeadLetters();
+  while (batch.length > 0) {
+    for (const message of batch) {
+      await deleteMessage(message.msg_id, config.deadLetter.queueName);
+      purged++;
+    }
+    batch = await listDeadLetters();
+  }
+
+  logger.info('Purged dead-letter queue', { purged });
+  return purged;
+}
@@ -1,6 +1,13 @@
 import fs from "fs";
 import path from "path";
+import crypto from "crypto";
 import { config } from "../config/config";
+import type { HlsSegmentType, WatermarkPosition } from "../config/config";
+import { RenderProgress, TransitionType } from "../types";
+import type { RenderPreset } from "./render-preset-service";
+import { MotionPlan, buildMotionFilter } from "./motion-service";
+import { downloadThroughCache } from "./cache-service";
+import { trackChildProcess } from "../utils/process";
 
 // Dynamically import ffmpeg with proper typing
 let ffmpeg: any;
@@ -8,7 +15,12 @@ const importFFmpeg = async () => {
   try {
     // Use dynamic import for compatibility
     const ffmpegModule = await import("fluent-ffmpeg");
-    ffmpeg = ffmpegModule.default;
+    const createCommand = ffmpegModule.default as any;
+    // Every command registers its FFmpeg process so shutdown can stop it
+    ffmpeg = (...args: any[]) =>
+      createCommand(...args).on("start", function (this: any) {
+        trackChildProcess(this.ffmpegProc);
+      });
     return ffmpeg;
   } catch (error) {
     console.error("Error loading FFmpeg module:", error);
@@ -65,72 +77,73 @@ function logError(message: string, error?: any): void {
   }
 }
 
-// Global tracking for progress reporting
-let highestSeenPercentage = 0;
-let lastReportedPercent = 0;
-let consecutiveZeros = 0;
-let inNewProcess = false;
-
 /**
- * Helper function for progress messages
+ * Create a progress logger for a single FFmpeg run.
+ * Each run keeps its own state so concurrent renders don't scramble each other's bars.
+ * @param label Name printed next to the bar to tell concurrent renders apart
  */
-function logProgress(percent: number): void {
-  // Ensure percentage is between 0 and 100
-  let validPercent = Math.min(Math.max(Math.floor(percent || 0), 0), 100);
-
-  // Handle process transitions
-  if (validPercent === 0) {
-    consecutiveZeros++;
-
-    // If we see multiple consecutive zeros after having high percentages,
-    // it's likely a new process starting
-    if (consecutiveZeros >= 2 && lastReportedPercent >= 99) {
-      highestSeenPercentage = 0;
-      inNewProcess = true;
-    } else if (!inNewProcess && highestSeenPercentage > 50) {
-      // If we're not in a new process and we've made progress,
-      // don't display the zero
+function createProgressLogger(label: string): (percent: number) => void {
+  let highestSeenPercentage = 0;
+  let lastReportedPercent = -1;
+
+  return (percent: number) => {
+    // Ensure percentage is between 0 and 100
+    const validPercent = Math.min(Math.max(Math.floor(percent || 0), 0), 100);
+
+    // Never report backward progress within the same run
+    if (validPercent < highestSeenPercentage) {
       return;
     }
-  } else {
-    consecutiveZeros = 0;
-    inNewProcess = false;
-  }
+    highestSeenPercentage = validPercent;
 
-  // Prevent backward progress reporting within the same process
-  if (
-    !inNewProcess &&
-    validPercent < highestSeenPercentage - 5 &&
-    highestSeenPercentage > 10
-  ) {
-    // Use the last reported value instead of the new lower one
-    validPercent = lastReportedPercent;
-  }
+    // Only report if the percentage has changed significantly
+    if (
+      lastReportedPercent >= 0 &&
+      validPercent - lastReportedPercent < 2 &&
+      validPercent !== 100
+    ) {
+      return;
+    }
+    if (validPercent === lastReportedPercent) {
+      return;
+    }
 
-  // Update tracking variables
-  if (validPercent > highestSeenPercentage) {
-    highestSeenPercentage = validPercent;
-  }
+    // Create progress bar
+    const progressBar =
+      "█".repeat(Math.floor(validPercent / 5)) +
+      "░".repeat(20 - Math.floor(validPercent / 5));
+    console.log(
+      `${getTimestamp()} 🔄 Processing ${label}: [${progressBar}] ${validPercent}%`
+    );
 
-  // Only report if the percentage has changed significantly
-  if (
-    Math.abs(validPercent - lastReportedPercent) < 2 &&
-    validPercent !== 0 &&
-    validPercent !== 100
-  ) {
-    return;
-  }
+    // Update last reported percentage
+    lastReportedPercent = validPercent;
+  };
+}
 
-  // Create progress bar
-  const progressBar =
-    "█".repeat(Math.floor(validPercent / 5)) +
-    "░".repeat(20 - Math.floor(validPercent / 5));
-  console.log(
-    `${getTimestamp()} 🔄 Processing: [${progressBar}] ${validPercent}%`
-  );
+// Captions burned into a segment video
+export interface SubtitleInput {
+  path: string;
+  // force_style applied to SRT files; ASS files carry their own styles
+  forceStyle?: string;
+  // Extra directory libass looks for fonts in
+  fontsDir?: string;
+}
 
-  // Update last reported percentage
-  lastReportedPercent = validPercent;
+// Escape a path for use inside a quoted filtergraph option
+function escapeFilterPath(filePath: string): string {
+  return filePath.replace(/[\\:]/g, "\\$&");
+}
+
+/**
+ * Unique scratch path inside the processing directory, so concurrent renders
+ * producing files with the same name (e.g. output.mp4) never overwrite each other
+ */
+function getScratchPath(directory: string, fileName: string): string {
+  return path.join(
+    directory,
+    `${Date.now()}_${crypto.randomBytes(4).toString("hex")}_${fileName}`
+  );
 }
 
 // Download a file from a URL and save it to the specified path
@@ -142,32 +155,13 @@ export async function downloadFile(
     logInfo(`Downloading file from ${url}`);
     logInfo(`Destination: ${filePath}`);
 
-    // Ensure the downloads directory exists
-    const downloadsDir = path.join(config.paths.tempDir, "downloads");
-    fs.mkdirSync(downloadsDir, { recursive: true });
-
-    // Define destination path in downloads directory
-    const fileName = `${Date.now()}_${path.basename(filePath)}`;
-    const downloadPath = path.join(downloadsDir, fileName);
-
-    // Fetch the file
-    const response = await fetch(url);
-    if (!response.ok) {
-      throw new Error(`Failed to download file: ${response.statusText}`);
-    }
-
-    const arrayBuffer = await response.arrayBuffer();
-    const buffer = Buffer.from(arrayBuffer);
-
-    // Write the file to the downloads directory
-    fs.writeFileSync(downloadPath, buffer);
-
-    // Copy to the requested location if different from downloads directory
-    if (downloadPath !== filePath) {
-      fs.copyFileSync(downloadPath, filePath);
+    // Fetch the file, or reuse the cached copy if the server says it hasn't changed
+    const fromCache = await downloadThroughCache(url, filePath);
+    if (fromCache) {
+      logInfo(`Using cached copy of ${url}`);
     }
 
-    logSuccess(`Downloaded file successfully to ${downloadPath}`);
+    logSuccess(`Downloaded file successfully to ${filePath}`);
     return true;
   } catch (error) {
     console.error("Error downloading file:", error);
@@ -175,35 +169,182 @@ export async function downloadFile(
   }
 }
 
-// Get the duration of an audio file in seconds
-export async function getAudioDuration(audioPath: string): Promise<number> {
+// Get the duration of a media file (audio or video) in seconds
+export async function getMediaDuration(mediaPath: string): Promise<number> {
   try {
     const ff = await importFFmpeg();
 
     return new Promise((resolve, reject) => {
-      ff(audioPath).ffprobe((err: Error, data: any) => {
+      ff(mediaPath).ffprobe((err: Error, data: any) => {
         if (err) {
           reject(err);
           return;
         }
 
-        const duration = data.format.duration;
+        const duration = Number(data.format.duration);
+        if (!isFinite(duration) || duration <= 0) {
+          reject(new Error(`Could not determine duration of ${mediaPath}`));
+          return;
+        }
+
         resolve(duration);
       });
     });
   } catch (error) {
-    console.error("Error getting audio duration:", error);
+    console.error("Error getting media duration:", error);
     throw error;
   }
 }
 
-// Create a video from an image and audio file with slow zoom effect and optional subtitles
+// Whether a media file has at least one audio stream
+export async function hasAudioStream(mediaPath: string): Promise<boolean> {
+  const ff = await importFFmpeg();
+
+  return new Promise((resolve, reject) => {
+    ff(mediaPath).ffprobe((err: Error, data: any) => {
+      if (err) {
+        reject(err);
+        return;
+      }
+      resolve((data.streams || []).some((stream: any) => stream.codec_type === "audio"));
+    });
+  });
+}
+
+// Get the duration of an audio file in seconds
+export async function getAudioDuration(audioPath: string): Promise<number> {
+  return getMediaDuration(audioPath);
+}
+
+// Convert audio to mono 16-bit PCM WAV, the input format whisper.cpp expects
+export async function convertAudioToWav(
+  audioPath: string,
+  outputPath: string,
+  sampleRate = 16000
+): Promise<void> {
+  const ff = await importFFmpeg();
+
+  return new Promise((resolve, reject) => {
+    ff(audioPath)
+      .noVideo()
+      .audioChannels(1)
+      .audioFrequency(sampleRate)
+      .audioCodec("pcm_s16le")
+      .output(outputPath)
+      .on("end", () => resolve())
+      .on("error", (err: Error) => {
+        logError(`Error converting ${audioPath} to WAV`, err);
+        reject(err);
+      })
+      .run();
+  });
+}
+
+// A stretch of silence in an audio file, in seconds
+export interface SilenceRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * Find the pauses in an audio file with FFmpeg's silencedetect filter
+ * @param noiseDb Volume in dB below which audio counts as silence
+ * @param minDuration Shortest pause to report, in seconds
+ */
+export async function detectSilences(
+  audioPath: string,
+  noiseDb: number,
+  minDuration: number
+): Promise<SilenceRange[]> {
+  const ff = await importFFmpeg();
+
+  return new Promise((resolve, reject) => {
+    const silences: SilenceRange[] = [];
+    let openStart: number | null = null;
+
+    ff(audioPath)
+      .noVideo()
+      .audioFilters(`silencedetect=noise=${noiseDb}dB:d=${minDuration}`)
+      .format("null")
+      .output("-")
+      .on("stderr", (line: string) => {
+        const startMatch = line.match(/silence_start:\s*(-?[\d.]+)/);
+        if (startMatch) {
+          openStart = Math.max(0, parseFloat(startMatch[1]));
+          return;
+        }
+        const endMatch = line.match(/silence_end:\s*([\d.]+)/);
+        if (endMatch && openStart !== null) {
+          silences.push({ start: openStart, end: parseFloat(endMatch[1]) });
+          openStart = null;
+        }
+      })
+      .on("end", async () => {
+        // Silence running to the end of the file never reports silence_end
+        if (openStart !== null) {
+          try {
+            silences.push({ start: openStart, end: await getMediaDuration(audioPath) });
+          } catch (err) {
+            reject(err);
+            return;
+          }
+        }
+        resolve(silences);
+      })
+      .on("error", (err: Error) => {
+        logError(`Error detecting silence in ${audioPath}`, err);
+        reject(err);
+      })
+      .run();
+  });
+}
+
+// Map our transition names onto FFmpeg xfade transitions
+const XFADE_TRANSITIONS: Record<TransitionType, string> = {
+  fade: "fade",
+  wipe: "wipeleft",
+  slide: "slideleft",
+  dissolve: "dissolve",
+};
+
+// Convert an FFmpeg timemark (HH:MM:SS.ms) into seconds
+function timemarkToSeconds(timemark: string | undefined): number {
+  if (!timemark) return 0;
+  return timemark
+    .split(":")
+    .reduce((total, part) => total * 60 + (parseFloat(part) || 0), 0);
+}
+
+// Encoder options shared by segment and merge renders
+function getEncoderOptions(renderPreset: RenderPreset): string[] {
+  return [
+    "-c:v",
+    renderPreset.videoCodec,
+    "-c:a",
+    "aac",
+    "-pix_fmt",
+    "yuv420p",
+    "-r",
+    `${renderPreset.fps}`,
+    "-preset",
+    renderPreset.preset,
+    "-profile:v",
+    "main",
+    "-crf",
+    `${renderPreset.crf}`,
+  ];
+}
+
+// Create a video from an image and audio file with a Ken Burns move and optional subtitles
 export async function createVideo(
   imagePath: string,
   audioPath: string,
   outputPath: string,
   duration: number,
-  subtitlesPath?: string // Added subtitle support
+  renderPreset: RenderPreset,
+  motion: MotionPlan,
+  subtitles?: SubtitleInput,
+  onProgress?: (progress: RenderProgress) => void
 ): Promise<void> {
   try {
     console.log(
@@ -222,33 +363,35 @@ export async function createVideo(
     fs.mkdirSync(logsDir, { recursive: true });
 
     // Define temp processing path
-    const tempOutputPath = path.join(processingDir, path.basename(outputPath));
+    const tempOutputPath = getScratchPath(processingDir, path.basename(outputPath));
 
     // Define log file path
     const logFilePath = path.join(logsDir, `ffmpeg-${Date.now()}.log`);
     const logStream = fs.createWriteStream(logFilePath, { flags: "a" });
+    const logProgress = createProgressLogger(path.basename(outputPath));
 
     const ff = await importFFmpeg();
 
-    // Define zoom effect parameters - Ken Burns effect
-    // Slightly zoom in throughout the duration of the segment
-    // This creates a slow zoom effect that enhances the storytelling feel
+    // Ken Burns effect: a slow camera move over the image for the length of the segment
     return new Promise((resolve, reject) => {
-      const filters = [
-        // Apply slow zoom effect (Ken Burns effect)
-        // Start at 1.0x zoom and end at 1.1x zoom
-        `[0:v]scale=1920:1080,zoompan=z='min(zoom+0.0001,1.1)':d=${
-          duration * 30
-        }:s=1920x1080:fps=30[v]`,
-      ];
+      logInfo(`Applying ${motion.style} motion`);
+      const filters = [`[0:v]${buildMotionFilter(motion, duration, renderPreset)}[v]`];
 
       // Add subtitle filter if subtitles are provided
-      if (subtitlesPath) {
-        // Escape special characters in the path
-        const escapedPath = subtitlesPath.replace(/[\\:]/g, "\\$&");
-        filters.push(
-          `[v]subtitles='${escapedPath}':force_style='Alignment=2,PlayResX=1920,PlayResY=1080,FontName=Arial,FontSize=75,MarginV=50,BorderStyle=3,Outline=2,Shadow=0,LineSpacing=0,MarginL=200,MarginR=200'[vout]`
-        );
+      if (subtitles) {
+        const escapedPath = escapeFilterPath(subtitles.path);
+        const fontsDir = subtitles.fontsDir
+          ? `:fontsdir='${escapeFilterPath(subtitles.fontsDir)}'`
+          : "";
+        // ASS files (karaoke captions) carry their own styles, SRT gets the profile's look
+        if (path.extname(subtitles.path).toLowerCase() === ".ass") {
+          filters.push(`[v]ass='${escapedPath}'${fontsDir}[vout]`);
+        } else {
+          const forceStyle = subtitles.forceStyle
+            ? `:force_style='${subtitles.forceStyle}'`
+            : "";
+          filters.push(`[v]subtitles='${escapedPath}'${fontsDir}${forceStyle}[vout]`);
+        }
       }
 
       const command = ff()
@@ -259,26 +402,13 @@ export async function createVideo(
       // Set up output mapping based on whether we have subtitles
       const outputOptions = [
         "-map",
-        subtitlesPath ? "[vout]" : "[v]", // Use the video after effects
+        subtitles ? "[vout]" : "[v]", // Use the video after effects
         "-map",
         "1:a", // Use the audio from the second input
-        "-c:v",
-        "libx264",
-        "-c:a",
-        "aac",
+        ...getEncoderOptions(renderPreset),
         "-shortest",
-        "-pix_fmt",
-        "yuv420p",
         `-t`,
         `${duration}`,
-        "-r",
-        "30",
-        "-preset",
-        "medium",
-        "-profile:v",
-        "main",
-        "-crf",
-        "23", // Better quality
       ];
 
       command
@@ -295,6 +425,11 @@ export async function createVideo(
           const normalizedPercent = Math.min(Math.floor(rawPercent), 100);
 
           logProgress(normalizedPercent);
+          onProgress?.({
+            percent: normalizedPercent,
+            fps: progress.currentFps,
+            timemark: progress.timemark,
+          });
           logStream.write(
             `${getTimestamp()} Progress: ${normalizedPercent}%\n`
           );
@@ -310,10 +445,9 @@ export async function createVideo(
           logStream.write(`${getTimestamp()} Finished successfully\n`);
           logStream.end();
 
-          // Copy the file from processing directory to the requested output path
-          if (tempOutputPath !== outputPath) {
-            fs.copyFileSync(tempOutputPath, outputPath);
-          }
+          // Move the file from processing directory to the requested output path
+          fs.copyFileSync(tempOutputPath, outputPath);
+          fs.rmSync(tempOutputPath, { force: true });
 
           logSuccess(`Video created successfully at ${outputPath}`);
           resolve();
@@ -326,25 +460,39 @@ export async function createVideo(
   }
 }
 
+// Timeline of a merged video
+export interface MergeResult {
+  // Seconds
+  duration: number;
+  // Where each input starts in the merged video, in input order
+  offsets: number[];
+}
+
 /**
  * Merge multiple videos together with cross-fade transitions
  * @param videoFiles Array of video file paths to merge
  * @param outputPath Output path for the merged video
+ * @param renderPreset Frame size and encoder settings of the merged video
  * @param transitionDuration Duration of transition between videos in seconds
- * @returns Promise that resolves when video is merged
+ * @param transitionType Visual style of the transition between videos
+ * @param onProgress Optional callback receiving FFmpeg progress updates
+ * @returns Promise that resolves with the merged duration and where each input starts in it
  */
 export async function mergeVideosWithTransition(
   videoFiles: string[],
   outputPath: string,
-  transitionDuration: number = 1
-): Promise<void> {
+  renderPreset: RenderPreset,
+  transitionDuration: number = 1,
+  transitionType: TransitionType = "fade",
+  onProgress?: (progress: RenderProgress) => void
+): Promise<MergeResult> {
   try {
     if (videoFiles.length === 0) {
       throw new Error("No video files provided for merging");
     }
 
     logSectionHeader(
-      `Merging ${videoFiles.length} videos with ${transitionDuration}s transitions`
+      `Merging ${videoFiles.length} videos with ${transitionDuration}s ${transitionType} transitions`
     );
 
     // Ensure the processing directory exists
@@ -359,11 +507,18 @@ export async function mergeVideosWithTransition(
     fs.mkdirSync(logsDir, { recursive: true });
 
     // Define temp processing path
-    const tempOutputPath = path.join(processingDir, path.basename(outputPath));
+    const tempOutputPath = getScratchPath(processingDir, path.basename(outputPath));
 
     // Define log file path
     const logFilePath = path.join(logsDir, `ffmpeg-merge-${Date.now()}.log`);
     const logStream = fs.createWriteStream(logFilePath, { flags: "a" });
+    const logProgress = createProgressLogger(path.basename(outputPath));
+
+    // Probe every input so the transition offsets line up with the real durations
+    const durations: number[] = [];
+    for (const file of videoFiles) {
+      durations.push(await getMediaDuration(file));
+    }
 
     const ff = await importFFmpeg();
     const command = ff();
@@ -389,6 +544,11 @@ export async function mergeVideosWithTransition(
             const normalizedPercent = Math.min(Math.floor(rawPercent), 100);
 
             logProgress(normalizedPercent);
+            onProgress?.({
+              percent: normalizedPercent,
+              fps: progress.currentFps,
+              timemark: progress.timemark,
+            });
             logStream.write(
               `${getTimestamp()} Progress: ${normalizedPercent}%\n`
             );
@@ -404,53 +564,101 @@ export async function mergeVideosWithTransition(
             logStream.write(`${getTimestamp()} Finished successfully\n`);
             logStream.end();
 
-            // Copy the file from processing directory to the requested output path
-            if (tempOutputPath !== outputPath) {
-              fs.copyFileSync(tempOutputPath, outputPath);
-            }
+            // Move the file from processing directory to the requested output path
+            fs.copyFileSync(tempOutputPath, outputPath);
+            fs.rmSync(tempOutputPath, { force: true });
 
             logSuccess(`Videos merged successfully at ${outputPath}`);
-            resolve();
+            resolve({ duration: durations[0], offsets: [0] });
           })
           .run();
       });
     }
 
+    // A transition can't be longer than either clip it overlaps, so clamp it
+    // to half of the shortest input to leave some untouched footage per clip
+    const shortestDuration = Math.min(...durations);
+    const fadeDuration = Math.max(
+      0,
+      Math.min(transitionDuration, shortestDuration / 2)
+    );
+    if (fadeDuration < transitionDuration) {
+      logWarning(
+        `Transition duration clamped from ${transitionDuration}s to ${fadeDuration.toFixed(
+          3
+        )}s to fit the shortest segment`
+      );
+    }
+
     // Build the complex filter for multiple videos with crossfade transitions
     const filterComplex: string[] = [];
-    const outputLabels: string[] = [];
 
-    // Process each video
+    // Normalize each input so xfade/acrossfade receive matching streams
     for (let i = 0; i < videoFiles.length; i++) {
-      // Label for the current video
-      filterComplex.push(`[${i}:v]setpts=PTS-STARTPTS[v${i}]`);
-      filterComplex.push(`[${i}:a]asetpts=PTS-STARTPTS[a${i}]`);
-
-      outputLabels.push(`[v${i}]`);
-      outputLabels.push(`[a${i}]`);
+      filterComplex.push(
+        `[${i}:v]scale=${renderPreset.width}:${renderPreset.height},setsar=1,settb=AVTB,setpts=PTS-STARTPTS,fps=${renderPreset.fps},format=yuv420p[v${i}]`
+      );
+      filterComplex.push(
+        `[${i}:a]asetpts=PTS-STARTPTS,aformat=sample_rates=44100:channel_layouts=stereo[a${i}]`
+      );
     }
 
-    // Create the concat command with crossfade transitions
-    // Format: "v1" "v2" "v3" etc for video and "a1" "a2" "a3" etc for audio
-    const videoLabels = [];
-    const audioLabels = [];
-
-    for (let i = 0; i < videoFiles.length; i++) {
-      videoLabels.push(`[v${i}]`);
-      audioLabels.push(`[a${i}]`);
+    // Chain the transitions: each xfade starts `fadeDuration` before the end
+    // of everything merged so far, so the timeline shrinks by one overlap per join
+    const xfadeTransition = XFADE_TRANSITIONS[transitionType] || "fade";
+    let previousVideo = "[v0]";
+    let previousAudio = "[a0]";
+    let mergedDuration = durations[0];
+    const offsets = [0];
+
+    for (let i = 1; i < videoFiles.length && fadeDuration > 0; i++) {
+      const isLast = i === videoFiles.length - 1;
+      const videoOut = isLast ? "[vmerged]" : `[vx${i}]`;
+      const audioOut = isLast ? "[aout]" : `[ax${i}]`;
+      const offset = mergedDuration - fadeDuration;
+
+      filterComplex.push(
+        `${previousVideo}[v${i}]xfade=transition=${xfadeTransition}:duration=${fadeDuration.toFixed(
+          3
+        )}:offset=${offset.toFixed(3)}${videoOut}`
+      );
+      filterComplex.push(
+        `${previousAudio}[a${i}]acrossfade=d=${fadeDuration.toFixed(
+          3
+        )}:c1=tri:c2=tri${audioOut}`
+      );
+
+      previousVideo = videoOut;
+      previousAudio = audioOut;
+      offsets.push(offset);
+      mergedDuration = offset + durations[i];
     }
 
-    // Add the concat filter
-    // For video, use xfade to transition between segments
-    const concatVideo = `${videoLabels.join("")}concat=n=${
-      videoFiles.length
-    }:v=1:a=0,format=yuv420p[vout]`;
-    const concatAudio = `${audioLabels.join("")}concat=n=${
-      videoFiles.length
-    }:v=0:a=1[aout]`;
+    if (fadeDuration > 0) {
+      filterComplex.push(`[vmerged]format=yuv420p[vout]`);
+    } else {
+      // No room for a transition, fall back to a hard cut between segments
+      const videoLabels = videoFiles.map((_, i) => `[v${i}]`).join("");
+      const audioLabels = videoFiles.map((_, i) => `[a${i}]`).join("");
+      filterComplex.push(
+        `${videoLabels}concat=n=${videoFiles.length}:v=1:a=0,format=yuv420p[vout]`
+      );
+      filterComplex.push(
+        `${audioLabels}concat=n=${videoFiles.length}:v=0:a=1[aout]`
+      );
+      offsets.length = 0;
+      mergedDuration = 0;
+      for (const duration of durations) {
+        offsets.push(mergedDuration);
+        mergedDuration += duration;
+      }
+    }
 
-    filterComplex.push(concatVideo);
-    filterComplex.push(concatAudio);
+    logInfo(
+      `Expected merged duration: ${mergedDuration.toFixed(2)}s (${
+        videoFiles.length - 1
+      } transitions of ${fadeDuration.toFixed(2)}s)`
+    );
 
     return new Promise((resolve, reject) => {
       command
@@ -461,16 +669,9 @@ export async function mergeVideosWithTransition(
           "-map",
           "[aout]",
           "-sn", // Strip any existing subtitles
-          "-c:v",
-          "libx264",
-          "-c:a",
-          "aac",
-          "-preset",
-          "medium",
-          "-profile:v",
-          "main",
-          "-crf",
-          "23",
+          ...getEncoderOptions(renderPreset),
+          "-t",
+          `${mergedDuration.toFixed(3)}`,
         ])
         .output(tempOutputPath)
         .on("start", (commandLine: string) => {
@@ -478,11 +679,20 @@ export async function mergeVideosWithTransition(
           logStream.write(`${getTimestamp()} Command: ${commandLine}\n`);
         })
         .on("progress", (progress: any) => {
-          // Fix the progress percentage - cap at 100%
-          const rawPercent = progress.percent || 0;
-          const normalizedPercent = Math.min(Math.floor(rawPercent), 100);
+          // FFmpeg's own percentage is based on the first input only, so
+          // derive it from the timemark against the expected merged duration
+          const elapsed = timemarkToSeconds(progress.timemark);
+          const normalizedPercent = Math.min(
+            Math.floor((elapsed / mergedDuration) * 100),
+            100
+          );
 
           logProgress(normalizedPercent);
+          onProgress?.({
+            percent: normalizedPercent,
+            fps: progress.currentFps,
+            timemark: progress.timemark,
+          });
           logStream.write(
             `${getTimestamp()} Progress: ${normalizedPercent}%\n`
           );
@@ -498,13 +708,12 @@ export async function mergeVideosWithTransition(
           logStream.write(`${getTimestamp()} Finished successfully\n`);
           logStream.end();
 
-          // Copy the file from processing directory to the requested output path
-          if (tempOutputPath !== outputPath) {
-            fs.copyFileSync(tempOutputPath, outputPath);
-          }
+          // Move the file from processing directory to the requested output path
+          fs.copyFileSync(tempOutputPath, outputPath);
+          fs.rmSync(tempOutputPath, { force: true });
 
           logSuccess(`Videos merged successfully at ${outputPath}`);
-          resolve();
+          resolve({ duration: mergedDuration, offsets });
         })
         .run();
     });
@@ -513,3 +722,596 @@ export async function mergeVideosWithTransition(
     throw error;
   }
 }
+
+// How a music bed is mixed under a video's narration
+export interface MusicMix {
+  // Music level in dB before ducking
+  gain: number;
+  fadeIn: number;
+  fadeOut: number;
+  duck: {
+    threshold: number;
+    ratio: number;
+    attack: number;
+    release: number;
+  };
+}
+
+/**
+ * Mix a music track under a video's audio. The music is looped or trimmed to the video's length,
+ * faded in and out, and ducked by a sidechain compressor keyed by the narration.
+ * The video stream is copied untouched.
+ */
+export async function mixBackgroundMusic(
+  videoPath: string,
+  musicPath: string,
+  outputPath: string,
+  duration: number,
+  mix: MusicMix,
+  onProgress?: (progress: RenderProgress) => void
+): Promise<void> {
+  try {
+    logInfo(`Mixing background music ${path.basename(musicPath)} at ${mix.gain}dB`);
+
+    const processingDir = path.join(config.paths.tempDir, config.paths.processingDir);
+    fs.mkdirSync(processingDir, { recursive: true });
+    const tempOutputPath = getScratchPath(processingDir, path.basename(outputPath));
+    const logProgress = createProgressLogger(path.basename(outputPath));
+
+    // Fades can't be longer than the video
+    const fadeIn = Math.min(Math.max(0, mix.fadeIn), duration / 2);
+    const fadeOut = Math.min(Math.max(0, mix.fadeOut), duration / 2);
+    const { threshold, ratio, attack, release } = mix.duck;
+
+    const filters = [
+      "[0:a]aformat=sample_rates=44100:channel_layouts=stereo,asplit=2[voice][key]",
+      [
+        `[1:a]atrim=0:${duration.toFixed(3)}`,
+        "asetpts=PTS-STARTPTS",
+        "aformat=sample_rates=44100:channel_layouts=stereo",
+        `volume=${mix.gain}dB`,
+        ...(fadeIn > 0 ? [`afade=t=in:st=0:d=${fadeIn.toFixed(3)}`] : []),
+        ...(fadeOut > 0
+          ? [`afade=t=out:st=${(duration - fadeOut).toFixed(3)}:d=${fadeOut.toFixed(3)}`]
+          : []),
+      ].join(",") + "[music]",
+      `[music][key]sidechaincompress=threshold=${threshold}:ratio=${ratio}:attack=${attack}:release=${release}[ducked]`,
+      // amix divides every input by the number of inputs, so restore the narration's level
+      "[voice][ducked]amix=inputs=2:duration=first:dropout_transition=0,volume=2[aout]",
+    ];
+
+    const ff = await importFFmpeg();
+
+    return new Promise((resolve, reject) => {
+      ff()
+        .input(videoPath)
+        .input(musicPath)
+        // Repeat short tracks until the video ends
+        .inputOptions(["-stream_loop", "-1"])
+        .complexFilter(filters)
+        .outputOptions([
+          "-map",
+          "0:v",
+          "-map",
+          "[aout]",
+          "-c:v",
+          "copy",
+          "-c:a",
+          "aac",
+          "-t",
+          `${duration.toFixed(3)}`,
+        ])
+        .output(tempOutputPath)
+        .on("start", () => {
+          logInfo("FFmpeg music mix started");
+        })
+        .on("progress", (progress: any) => {
+          const elapsed = timemarkToSeconds(progress.timemark);
+          const normalizedPercent = Math.min(Math.floor((elapsed / duration) * 100), 100);
+          logProgress(normalizedPercent);
+          onProgress?.({
+            percent: normalizedPercent,
+            fps: progress.currentFps,
+            timemark: progress.timemark,
+          });
+        })
+        .on("error", (err: Error) => {
+          logError("FFmpeg music mix failed", err);
+          reject(err);
+        })
+        .on("end", () => {
+          fs.copyFileSync(tempOutputPath, outputPath);
+          fs.rmSync(tempOutputPath, { force: true });
+
+          logSuccess(`Background music mixed into ${outputPath}`);
+          resolve();
+        })
+        .run();
+    });
+  } catch (error) {
+    logError("Failed to mix background music", error);
+    throw error;
+  }
+}
+
+/**
+ * Re-encode a clip (e.g. an intro bumper) to match the render preset, so it can be merged with
+ * the segment videos: letterboxed to the preset's frame, at its frame rate, with a stereo track
+ * (silence if the clip has no audio)
+ * @returns Duration of the normalized clip in seconds
+ */
+export async function normalizeClip(
+  inputPath: string,
+  outputPath: string,
+  renderPreset: RenderPreset
+): Promise<number> {
+  try {
+    logInfo(`Normalizing ${path.basename(inputPath)} to ${renderPreset.name}`);
+
+    const duration = await getMediaDuration(inputPath);
+    const hasAudio = await hasAudioStream(inputPath);
+    const { width, height, fps } = renderPreset;
+    const ff = await importFFmpeg();
+
+    const command = ff().input(inputPath);
+    if (!hasAudio) {
+      command.input("anullsrc=r=44100:cl=stereo").inputOptions(["-f", "lavfi"]);
+    }
+
+    await new Promise<void>((resolve, reject) => {
+      command
+        .complexFilter([
+          `[0:v]scale=${width}:${height}:force_original_aspect_ratio=decrease,pad=${width}:${height}:(ow-iw)/2:(oh-ih)/2,setsar=1,fps=${fps},format=yuv420p[vout]`,
+          `[${hasAudio ? 0 : 1}:a]aformat=sample_rates=44100:channel_layouts=stereo[aout]`,
+        ])
+        .outputOptions([
+          "-map",
+          "[vout]",
+          "-map",
+          "[aout]",
+          ...getEncoderOptions(renderPreset),
+          "-t",
+          `${duration.toFixed(3)}`,
+        ])
+        .output(outputPath)
+        .on("error", (err: Error) => {
+          logError("FFmpeg clip normalization failed", err);
+          reject(err);
+        })
+        .on("end", () => resolve())
+        .run();
+    });
+
+    return duration;
+  } catch (error) {
+    logError("Failed to normalize clip", error);
+    throw error;
+  }
+}
+
+// Placement and look of a logo overlaid on a video
+export interface WatermarkOverlay {
+  position: WatermarkPosition;
+  // Logo width as a fraction of the frame width
+  scale: number;
+  opacity: number;
+  // Gap to the frame edges as a fraction of the frame's shorter side
+  margin: number;
+  // Part of the video the logo is shown on, in seconds (defaults to all of it)
+  start?: number;
+  end?: number;
+}
+
+// overlay filter x:y for each watermark position, keeping `margin` pixels from the edges
+function getOverlayPosition(position: WatermarkPosition, margin: number): string {
+  const right = `main_w-overlay_w-${margin}`;
+  const bottom = `main_h-overlay_h-${margin}`;
+  switch (position) {
+    case "top-left":
+      return `${margin}:${margin}`;
+    case "top-right":
+      return `${right}:${margin}`;
+    case "bottom-left":
+      return `${margin}:${bottom}`;
+    case "bottom-right":
+      return `${right}:${bottom}`;
+    case "center":
+      return "(main_w-overlay_w)/2:(main_h-overlay_h)/2";
+  }
+}
+
+/**
+ * Overlay a logo image on a video, re-encoding it with the render preset.
+ * The audio is copied untouched.
+ */
+export async function applyWatermark(
+  videoPath: string,
+  imagePath: string,
+  outputPath: string,
+  duration: number,
+  overlay: WatermarkOverlay,
+  renderPreset: RenderPreset,
+  onProgress?: (progress: RenderProgress) => void
+): Promise<void> {
+  try {
+    logInfo(`Adding watermark ${path.basename(imagePath)} at ${overlay.position}`);
+
+    const processingDir = path.join(config.paths.tempDir, config.paths.processingDir);
+    fs.mkdirSync(processingDir, { recursive: true });
+    const tempOutputPath = getScratchPath(processingDir, path.basename(outputPath));
+    const logProgress = createProgressLogger(path.basename(outputPath));
+
+    const { width, height } = renderPreset;
+    const logoWidth = Math.max(2, Math.round((width * overlay.scale) / 2) * 2);
+    const margin = Math.round(Math.min(width, height) * overlay.margin);
+    const opacity = Math.min(1, Math.max(0, overlay.opacity));
+    const start = overlay.start ?? 0;
+    const end = overlay.end ?? duration;
+
+    const ff = await importFFmpeg();
+
+    return new Promise((resolve, reject) => {
+      ff()
+        .input(videoPath)
+        .input(imagePath)
+        .complexFilter([
+          `[1:v]scale=${logoWidth}:-2,format=rgba,colorchannelmixer=aa=${opacity}[logo]`,
+          `[0:v][logo]overlay=${getOverlayPosition(overlay.position, margin)}:enable='between(t,${start.toFixed(
+            3
+          )},${end.toFixed(3)})',format=yuv420p[vout]`,
+        ])
+        .outputOptions([
+          "-map",
+          "[vout]",
+          "-map",
+          "0:a?",
+          ...getEncoderOptions(renderPreset),
+          "-c:a",
+          "copy",
+          "-t",
+          `${duration.toFixed(3)}`,
+        ])
+        .output(tempOutputPath)
+        .on("start", () => {
+          logInfo("FFmpeg watermark overlay started");
+        })
+        .on("progress", (progress: any) => {
+          const elapsed = timemarkToSeconds(progress.timemark);
+          const normalizedPercent = Math.min(Math.floor((elapsed / duration) * 100), 100);
+          logProgress(normalizedPercent);
+          onProgress?.({
+            percent: normalizedPercent,
+            fps: progress.currentFps,
+            timemark: progress.timemark,
+          });
+        })
+        .on("error", (err: Error) => {
+          logError("FFmpeg watermark overlay failed", err);
+          reject(err);
+        })
+        .on("end", () => {
+          fs.copyFileSync(tempOutputPath, outputPath);
+          fs.rmSync(tempOutputPath, { force: true });
+
+          logSuccess(`Watermark added to ${outputPath}`);
+          resolve();
+        })
+        .run();
+    });
+  } catch (error) {
+    logError("Failed to add watermark", error);
+    throw error;
+  }
+}
+
+// A subtitle file muxed into a video as a soft (player-selectable) track
+export interface SubtitleTrack {
+  path: string;
+  // ISO 639-2 code, e.g. "eng"
+  language: string;
+  title?: string;
+  // Turned on by default in players that honour the disposition
+  isDefault?: boolean;
+}
+
+/**
+ * Add subtitle files to an MP4 as mov_text tracks. Video and audio are copied.
+ */
+export async function muxSubtitleTracks(
+  videoPath: string,
+  tracks: SubtitleTrack[],
+  outputPath: string
+): Promise<void> {
+  const options = ["-map", "0:v", "-map", "0:a?"];
+  tracks.forEach((track, index) => {
+    options.push(
+      "-map",
+      `${index + 1}:0`,
+      `-metadata:s:s:${index}`,
+      `language=${track.language}`,
+      `-disposition:s:${index}`,
+      track.isDefault ? "default" : "0"
+    );
+    if (track.title) {
+      // MP4 keeps a track's name in its handler name
+      options.push(`-metadata:s:s:${index}`, `handler_name=${track.title}`);
+    }
+  });
+
+  const ff = await importFFmpeg();
+  const command = ff(videoPath);
+  tracks.forEach((track) => command.input(track.path));
+  // Passed as separate arguments so fluent-ffmpeg doesn't split titles at spaces
+  command
+    .outputOptions(
+      ...options,
+      "-c:v",
+      "copy",
+      "-c:a",
+      "copy",
+      "-c:s",
+      "mov_text",
+      "-movflags",
+      "+faststart"
+    )
+    .output(outputPath);
+
+  await runCommand(command, "subtitle muxing");
+  logSuccess(`Muxed ${tracks.length} subtitle track(s) into ${outputPath}`);
+}
+
+// One rung of an HLS bitrate ladder
+export interface HlsRendition {
+  name: string;
+  width: number;
+  height: number;
+  // kbit/s
+  videoBitrate: number;
+  audioBitrate: number;
+}
+
+/**
+ * Encode one HLS rendition of a video into `outputDir` as index.m3u8 plus its media segments.
+ * Keyframes are placed on segment boundaries so every rendition switches at the same points.
+ */
+export async function encodeHlsRendition(
+  inputPath: string,
+  outputDir: string,
+  rendition: HlsRendition,
+  renderPreset: RenderPreset,
+  segmentType: HlsSegmentType,
+  segmentDuration: number,
+  onProgress?: (progress: RenderProgress) => void
+): Promise<void> {
+  try {
+    fs.mkdirSync(outputDir, { recursive: true });
+    logInfo(`Encoding HLS rendition ${rendition.name} (${rendition.width}x${rendition.height})`);
+
+    const keyframeInterval = Math.max(1, Math.round(segmentDuration * renderPreset.fps));
+    const extension = segmentType === "fmp4" ? "m4s" : "ts";
+    const ff = await importFFmpeg();
+
+    return new Promise((resolve, reject) => {
+      ff(inputPath)
+        .outputOptions([
+          "-map",
+          "0:v",
+          "-map",
+          "0:a?",
+          "-vf",
+          `scale=${rendition.width}:${rendition.height},setsar=1`,
+          "-c:v",
+          renderPreset.videoCodec,
+          "-preset",
+          renderPreset.preset,
+          "-profile:v",
+          "main",
+          "-pix_fmt",
+          "yuv420p",
+          "-b:v",
+          `${rendition.videoBitrate}k`,
+          "-maxrate",
+          `${Math.round(rendition.videoBitrate * 1.1)}k`,
+          "-bufsize",
+          `${rendition.videoBitrate * 2}k`,
+          "-g",
+          `${keyframeInterval}`,
+          "-keyint_min",
+          `${keyframeInterval}`,
+          "-sc_threshold",
+          "0",
+          "-c:a",
+          "aac",
+          "-b:a",
+          `${rendition.audioBitrate}k`,
+          "-ac",
+          "2",
+          "-f",
+          "hls",
+          "-hls_time",
+          `${segmentDuration}`,
+          "-hls_playlist_type",
+          "vod",
+          "-hls_segment_type",
+          segmentType === "fmp4" ? "fmp4" : "mpegts",
+          ...(segmentType === "fmp4" ? ["-hls_fmp4_init_filename", "init.mp4"] : []),
+          "-hls_segment_filename",
+          path.join(outputDir, `segment_%04d.${extension}`),
+        ])
+        .output(path.join(outputDir, "index.m3u8"))
+        .on("progress", (progress: any) => {
+          onProgress?.({
+            percent: Math.min(Math.floor(progress.percent || 0), 100),
+            fps: progress.currentFps,
+            timemark: progress.timemark,
+          });
+        })
+        .on("error", (err: Error) => {
+          logError(`FFmpeg HLS encode of ${rendition.name} failed`, err);
+          reject(err);
+        })
+        .on("end", () => {
+          logSuccess(`HLS rendition ${rendition.name} encoded`);
+          resolve();
+        })
+        .run();
+    });
+  } catch (error) {
+    logError("Failed to encode HLS rendition", error);
+    throw error;
+  }
+}
+
+// Run a prepared fluent-ffmpeg command that needs no progress reporting
+function runCommand(command: any, description: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    command
+      .on("error", (err: Error) => {
+        logError(`FFmpeg ${description} failed`, err);
+        reject(err);
+      })
+      .on("end", () => resolve())
+      .run();
+  });
+}
+
+// Title drawn along the bottom of a poster
+export interface PosterTitle {
+  text: string;
+  font: string;
+  fontsDir?: string;
+}
+
+/**
+ * Save the frame at `time` seconds as a poster image (format from the output extension),
+ * optionally with a title drawn over a dark band at the bottom
+ */
+export async function extractPoster(
+  videoPath: string,
+  outputPath: string,
+  time: number,
+  title?: PosterTitle
+): Promise<void> {
+  const filters: string[] = [];
+  if (title) {
+    // Reading the title from a file avoids escaping it for the filtergraph
+    const textPath = `${outputPath}.txt`;
+    fs.writeFileSync(textPath, title.text);
+    const fontFile = title.fontsDir ? findFontFile(title.fontsDir, title.font) : undefined;
+    filters.push(
+      "drawbox=x=0:y=ih*0.78:w=iw:h=ih*0.22:color=black@0.55:t=fill",
+      [
+        `drawtext=textfile='${escapeFilterPath(textPath)}'`,
+        // Titles are shown as written, without %{...} expansion
+        "expansion=none",
+        fontFile ? `fontfile='${escapeFilterPath(fontFile)}'` : `font='${title.font}'`,
+        "fontcolor=white",
+        "fontsize=h*0.07",
+        "x=(w-text_w)/2",
+        "y=h*0.89-text_h/2",
+      ].join(":")
+    );
+  }
+
+  const ff = await importFFmpeg();
+  const command = ff(videoPath)
+    .inputOptions(["-ss", `${Math.max(0, time).toFixed(3)}`])
+    .outputOptions(["-frames:v", "1", "-q:v", "2"])
+    .output(outputPath);
+  if (filters.length > 0) {
+    // videoFilters keeps font names with spaces in one argument
+    command.videoFilters(filters.join(","));
+  }
+
+  await runCommand(command, "poster extraction");
+  fs.rmSync(`${outputPath}.txt`, { force: true });
+}
+
+// A bundled font file whose name matches the family, e.g. Inter-Bold.ttf for "Inter"
+function findFontFile(fontsDir: string, family: string): string | undefined {
+  const prefix = family.toLowerCase().replace(/\s+/g, "");
+  const file = fs
+    .readdirSync(fontsDir)
+    .find(
+      (name) =>
+        /\.(ttf|otf)$/i.test(name) && name.toLowerCase().replace(/\s+/g, "").startsWith(prefix)
+    );
+  return file ? path.join(fontsDir, file) : undefined;
+}
+
+/**
+ * Render a short looping preview clip (animated WebP or GIF, from the output extension)
+ */
+export async function createAnimatedPreview(
+  videoPath: string,
+  outputPath: string,
+  start: number,
+  duration: number,
+  width: number,
+  fps: number
+): Promise<void> {
+  const scale = `fps=${fps},scale=${width}:-2:flags=lanczos`;
+  const isGif = path.extname(outputPath).toLowerCase() === ".gif";
+
+  const ff = await importFFmpeg();
+  const command = ff(videoPath).inputOptions([
+    "-ss",
+    `${Math.max(0, start).toFixed(3)}`,
+    "-t",
+    `${duration.toFixed(3)}`,
+  ]);
+
+  if (isGif) {
+    // A palette built from the clip itself keeps GIF banding down
+    command
+      .complexFilter([
+        `[0:v]${scale},split[a][b]`,
+        "[a]palettegen=stats_mode=diff[palette]",
+        "[b][palette]paletteuse=dither=bayer:bayer_scale=4[out]",
+      ])
+      .outputOptions(["-map", "[out]", "-loop", "0"]);
+  } else {
+    command.outputOptions([
+      "-vf",
+      scale,
+      "-an",
+      "-c:v",
+      "libwebp",
+      "-lossless",
+      "0",
+      "-q:v",
+      "70",
+      "-loop",
+      "0",
+    ]);
+  }
+
+  await runCommand(command.output(outputPath), "animated preview");
+}
+
+/**
+ * Tile one thumbnail every `interval` seconds into a single sprite sheet image
+ */
+export async function createSpriteSheet(
+  videoPath: string,
+  outputPath: string,
+  interval: number,
+  thumbWidth: number,
+  thumbHeight: number,
+  columns: number,
+  rows: number
+): Promise<void> {
+  const ff = await importFFmpeg();
+  const command = ff(videoPath)
+    .outputOptions([
+      "-vf",
+      `fps=1/${interval},scale=${thumbWidth}:${thumbHeight},tile=${columns}x${rows}`,
+      "-frames:v",
+      "1",
+      "-q:v",
+      "4",
+    ])
+    .output(outputPath);
+
+  await runCommand(command, "sprite sheet");
+}
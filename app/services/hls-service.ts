@@ -0,0 +1,129 @@
+import fs from "fs";
+import path from "path";
+import { config } from "../config/config";
+import { encodeHlsRendition, HlsRendition } from "./ffmpeg-service";
+import { RenderPreset } from "./render-preset-service";
+import { buildStoragePath, uploadFile } from "./storage-service";
+import { mapWithConcurrency } from "../utils/concurrency";
+import { temporaryError } from "../utils/errors";
+import { RenderProgress } from "../types";
+
+// Video bits per pixel per frame used to size each rendition's bitrate
+const BITS_PER_PIXEL = 0.08;
+
+const AUDIO_BITRATE = 128;
+
+const MASTER_PLAYLIST = "master.m3u8";
+
+/**
+ * Renditions of HLS_LADDER that fit the preset. Rungs name the shorter side, so a 720 rung
+ * of a vertical video is 720x1280; rungs larger than the preset are skipped.
+ */
+export function buildHlsLadder(renderPreset: RenderPreset): HlsRendition[] {
+  const shorterSide = Math.min(renderPreset.width, renderPreset.height);
+  const rungs = [...new Set(config.hls.ladder.filter((rung) => rung <= shorterSide))].sort(
+    (a, b) => b - a
+  );
+  if (rungs.length === 0) {
+    rungs.push(shorterSide);
+  }
+
+  const even = (value: number) => Math.max(2, Math.round(value / 2) * 2);
+  return rungs.map((rung) => {
+    const scale = rung / shorterSide;
+    const width = even(renderPreset.width * scale);
+    const height = even(renderPreset.height * scale);
+    return {
+      name: `${rung}p`,
+      width,
+      height,
+      videoBitrate: Math.round((width * height * renderPreset.fps * BITS_PER_PIXEL) / 1000),
+      audioBitrate: AUDIO_BITRATE,
+    };
+  });
+}
+
+// Master playlist pointing at every rendition's media playlist, best first
+function formatMasterPlaylist(renditions: HlsRendition[], fps: number): string {
+  const lines = ["#EXTM3U", "#EXT-X-VERSION:7", "#EXT-X-INDEPENDENT-SEGMENTS"];
+  for (const rendition of renditions) {
+    // Peak bandwidth allows for the encoder's maxrate headroom
+    const bandwidth = Math.round((rendition.videoBitrate * 1.1 + rendition.audioBitrate) * 1000);
+    lines.push(
+      `#EXT-X-STREAM-INF:BANDWIDTH=${bandwidth},RESOLUTION=${rendition.width}x${rendition.height},FRAME-RATE=${fps.toFixed(3)}`,
+      `${rendition.name}/index.m3u8`
+    );
+  }
+  return lines.join("\n") + "\n";
+}
+
+// Every file under dir, as paths relative to it
+function listFiles(dir: string, prefix = ""): string[] {
+  return fs.readdirSync(dir, { withFileTypes: true }).flatMap((entry) =>
+    entry.isDirectory()
+      ? listFiles(path.join(dir, entry.name), path.posix.join(prefix, entry.name))
+      : [path.posix.join(prefix, entry.name)]
+  );
+}
+
+/**
+ * Package a finalized video as HLS (an ABR ladder of fMP4 or TS renditions plus a master playlist)
+ * and upload the tree next to the video's other artifacts
+ * @returns Public URL of the master playlist
+ */
+export async function packageHls(
+  videoPath: string,
+  videoId: string,
+  workDir: string,
+  renderPreset: RenderPreset,
+  onProgress?: (progress: RenderProgress) => void
+): Promise<string> {
+  const hlsDir = path.join(workDir, "hls");
+  fs.rmSync(hlsDir, { recursive: true, force: true });
+  fs.mkdirSync(hlsDir, { recursive: true });
+
+  const renditions = buildHlsLadder(renderPreset);
+  for (const [index, rendition] of renditions.entries()) {
+    await encodeHlsRendition(
+      videoPath,
+      path.join(hlsDir, rendition.name),
+      rendition,
+      renderPreset,
+      config.hls.segmentType,
+      config.hls.segmentDuration,
+      (progress) =>
+        onProgress?.({
+          ...progress,
+          percent: ((index + progress.percent / 100) / renditions.length) * 100,
+        })
+    );
+  }
+  fs.writeFileSync(
+    path.join(hlsDir, MASTER_PLAYLIST),
+    formatMasterPlaylist(renditions, renderPreset.fps)
+  );
+
+  // Playlists reference their segments by relative path, so keep the layout in storage
+  const files = listFiles(hlsDir);
+  const uploads = await mapWithConcurrency(files, config.hls.uploadConcurrency, async (file) => {
+    const url = await uploadFile(
+      path.join(hlsDir, file),
+      buildStoragePath("videoArtifact", { videoId, fileName: `hls/${file}` })
+    );
+    if (!url) {
+      throw new Error(`Failed to upload ${file}`);
+    }
+    return url;
+  });
+
+  const failed = uploads.filter((upload) => upload.status === "rejected");
+  if (failed.length > 0) {
+    throw temporaryError(
+      `Failed to upload ${failed.length} of ${files.length} HLS files`,
+      (failed[0] as PromiseRejectedResult).reason,
+      "upload"
+    );
+  }
+
+  return (uploads[files.indexOf(MASTER_PLAYLIST)] as PromiseFulfilledResult<string>).value;
+}
@@ -0,0 +1,294 @@
+import crypto from 'crypto';
+import { EventEmitter } from 'events';
+import { config } from '../config/config';
+import { RenderProgress } from '../types';
+import { logger } from '../utils/logger';
+
+export type JobType = 'segment' | 'video';
+
+export type JobState =
+  | 'queued'
+  | 'downloading'
+  | 'transcribing'
+  | 'rendering'
+  | 'merging'
+  | 'branding'
+  | 'mixing'
+  | 'packaging'
+  | 'previews'
+  | 'uploading'
+  | 'done'
+  | 'failed';
+
+// Time spent in one state of a job
+export interface JobStageTiming {
+  state: JobState;
+  startedAt: string;
+  endedAt?: string;
+  durationMs?: number;
+}
+
+// A single segment or video processing run
+export interface Job {
+  id: string;
+  type: JobType;
+  targetId: string;
+  storyId?: string;
+  parentId?: string;
+  msgId?: number;
+  attempt?: number;
+  state: JobState;
+  progress: number;
+  fps?: number;
+  etaSeconds?: number;
+  stages: JobStageTiming[];
+  createdAt: string;
+  updatedAt: string;
+  finishedAt?: string;
+  result?: Record<string, any>;
+  error?: string;
+}
+
+// Filters accepted by listJobs
+export interface JobFilter {
+  state?: JobState;
+  type?: JobType;
+  storyId?: string;
+  targetId?: string;
+}
+
+// Kinds of events streamed to /api/jobs/:id/events and /api/events
+export type JobEventType = 'created' | 'state' | 'progress' | 'done' | 'failed';
+
+// Snapshot of a job sent with every event
+export interface JobEvent {
+  event: JobEventType;
+  jobId: string;
+  type: JobType;
+  targetId: string;
+  storyId?: string;
+  parentId?: string;
+  state: JobState;
+  progress: number;
+  fps?: number;
+  etaSeconds?: number;
+  error?: string;
+  timestamp: string;
+}
+
+const TERMINAL_STATES: JobState[] = ['done', 'failed'];
+
+// Listeners for job events; one channel for every job plus one per job id
+const jobEvents = new EventEmitter();
+jobEvents.setMaxListeners(0);
+const ALL_JOBS_CHANNEL = 'job';
+
+function emitJobEvent(event: JobEventType, job: Job): void {
+  const payload: JobEvent = {
+    event,
+    jobId: job.id,
+    type: job.type,
+    targetId: job.targetId,
+    storyId: job.storyId,
+    parentId: job.parentId,
+    state: job.state,
+    progress: job.progress,
+    fps: job.fps,
+    etaSeconds: job.etaSeconds,
+    error: job.error,
+    timestamp: job.updatedAt
+  };
+
+  jobEvents.emit(ALL_JOBS_CHANNEL, payload);
+  jobEvents.emit(`${ALL_JOBS_CHANNEL}:${job.id}`, payload);
+}
+
+/**
+ * Subscribe to events for a single job, or every job when no id is given
+ * @returns Function that removes the listener
+ */
+export function onJobEvent(
+  listener: (event: JobEvent) => void,
+  jobId?: string
+): () => void {
+  const channel = jobId ? `${ALL_JOBS_CHANNEL}:${jobId}` : ALL_JOBS_CHANNEL;
+  jobEvents.on(channel, listener);
+  return () => {
+    jobEvents.off(channel, listener);
+  };
+}
+
+/**
+ * Whether a job has finished, successfully or not
+ */
+export function isJobFinished(job: Job): boolean {
+  return isTerminal(job);
+}
+
+// Jobs by id, in insertion order so the oldest finished jobs are evicted first
+const jobs = new Map<string, Job>();
+
+function isTerminal(job: Job): boolean {
+  return TERMINAL_STATES.includes(job.state);
+}
+
+// Drop the oldest finished jobs once the history limit is exceeded
+function pruneJobs(): void {
+  let finished = 0;
+  for (const job of jobs.values()) {
+    if (isTerminal(job)) finished++;
+  }
+
+  for (const [id, job] of jobs) {
+    if (finished <= config.jobs.historyLimit) break;
+    if (isTerminal(job)) {
+      jobs.delete(id);
+      finished--;
+    }
+  }
+}
+
+// Close the timing entry of the state the job is leaving
+function closeCurrentStage(job: Job, now: Date): void {
+  const current = job.stages[job.stages.length - 1];
+  if (current && !current.endedAt) {
+    current.endedAt = now.toISOString();
+    current.durationMs = now.getTime() - new Date(current.startedAt).getTime();
+  }
+}
+
+/**
+ * Register a new job in the queued state
+ */
+export function createJob(
+  type: JobType,
+  targetId: string,
+  details: Pick<Job, 'storyId' | 'parentId' | 'msgId' | 'attempt'> = {}
+): Job {
+  const now = new Date().toISOString();
+  const job: Job = {
+    id: crypto.randomUUID(),
+    type,
+    targetId,
+    ...details,
+    state: 'queued',
+    progress: 0,
+    stages: [{ state: 'queued', startedAt: now }],
+    createdAt: now,
+    updatedAt: now
+  };
+
+  jobs.set(job.id, job);
+  pruneJobs();
+  emitJobEvent('created', job);
+  return job;
+}
+
+/**
+ * Move a job into a new state, recording how long the previous one took
+ */
+export function setJobState(job: Job | undefined, state: JobState): void {
+  if (!job || job.state === state || isTerminal(job)) return;
+
+  const now = new Date();
+  closeCurrentStage(job, now);
+  job.stages.push({ state, startedAt: now.toISOString() });
+  job.state = state;
+  job.progress = 0;
+  job.fps = undefined;
+  job.etaSeconds = undefined;
+  job.updatedAt = now.toISOString();
+
+  logger.debug('Job state changed', { jobId: job.id, type: job.type, targetId: job.targetId, state });
+  emitJobEvent('state', job);
+}
+
+/**
+ * Record FFmpeg (or other) progress for the job's current state
+ */
+export function setJobProgress(job: Job | undefined, progress: RenderProgress): void {
+  if (!job || isTerminal(job)) return;
+
+  const now = new Date();
+  const percent = Math.min(Math.max(Math.floor(progress.percent || 0), 0), 100);
+
+  // FFmpeg repeats the same percentage many times, only notify on real changes
+  job.fps = progress.fps;
+  if (percent === job.progress) return;
+
+  job.progress = percent;
+
+  // Extrapolate the remaining time from how long the current stage has taken so far
+  const stage = job.stages[job.stages.length - 1];
+  const elapsedSeconds = (now.getTime() - new Date(stage.startedAt).getTime()) / 1000;
+  job.etaSeconds = percent > 0
+    ? Math.round((elapsedSeconds * (100 - percent)) / percent)
+    : undefined;
+
+  job.updatedAt = now.toISOString();
+  emitJobEvent('progress', job);
+}
+
+/**
+ * Attach the story a job belongs to once it's known
+ */
+export function setJobStory(job: Job | undefined, storyId: string): void {
+  if (!job) return;
+  job.storyId = storyId;
+}
+
+/**
+ * Mark a job as successfully finished
+ */
+export function completeJob(job: Job | undefined, result?: Record<string, any>): void {
+  finishJob(job, 'done', { result });
+}
+
+/**
+ * Mark a job as failed with the error that stopped it
+ */
+export function failJob(job: Job | undefined, error: unknown): void {
+  finishJob(job, 'failed', { error: (error as Error)?.message || String(error) });
+}
+
+function finishJob(
+  job: Job | undefined,
+  state: JobState,
+  details: Pick<Job, 'result' | 'error'>
+): void {
+  if (!job || isTerminal(job)) return;
+
+  const now = new Date();
+  closeCurrentStage(job, now);
+  job.stages.push({ state, startedAt: now.toISOString(), endedAt: now.toISOString(), durationMs: 0 });
+  job.state = state;
+  job.progress = state === 'done' ? 100 : job.progress;
+  job.etaSeconds = undefined;
+  job.finishedAt = now.toISOString();
+  job.updatedAt = now.toISOString();
+  Object.assign(job, details);
+
+  pruneJobs();
+  emitJobEvent(state === 'done' ? 'done' : 'failed', job);
+}
+
+/**
+ * Look up a job by id
+ */
+export function getJob(id: string): Job | undefined {
+  return jobs.get(id);
+}
+
+/**
+ * List jobs matching the filter, newest first
+ */
+export function listJobs(filter: JobFilter = {}): Job[] {
+  return Array.from(jobs.values())
+    .filter((job) =>
+      (!filter.state || job.state === filter.state) &&
+      (!filter.type || job.type === filter.type) &&
+      (!filter.storyId || job.storyId === filter.storyId) &&
+      (!filter.targetId || job.targetId === filter.targetId)
+    )
+    .reverse();
+}
@@ -0,0 +1,130 @@
+import crypto from "crypto";
+import { config, MOTION_STYLES, MotionStyle } from "../config/config";
+import type { RenderPreset } from "./render-preset-service";
+
+/**
+ * A camera move over a segment image. Zoom is relative to the frame (1 = whole image);
+ * x/y are where the visible window sits within the room the zoom leaves (0 = left/top, 1 = right/bottom).
+ */
+export interface MotionPlan {
+  style: MotionStyle;
+  zoomFrom: number;
+  zoomTo: number;
+  xFrom: number;
+  xTo: number;
+  yFrom: number;
+  yTo: number;
+}
+
+// Moves picked for auto sequences; static is only used when asked for
+const AUTO_STYLES = MOTION_STYLES.filter((style) => style !== "static");
+
+// Zoom-to-point targets: the rule-of-thirds intersections
+const FOCUS_POINTS = [
+  { x: 1 / 3, y: 1 / 3 },
+  { x: 2 / 3, y: 1 / 3 },
+  { x: 1 / 3, y: 2 / 3 },
+  { x: 2 / 3, y: 2 / 3 },
+];
+
+// Deterministic number for a story and segment position
+function seededValue(seed: string, index: number, salt: string): number {
+  return crypto.createHash("sha256").update(`${seed}:${index}:${salt}`).digest().readUInt32BE(0);
+}
+
+/**
+ * The move for a segment in a story's seeded sequence.
+ * Each position picks from every auto move except the one before it, so a move never repeats back to back
+ * and the same story always gets the same sequence.
+ */
+function getSequenceStyle(seed: string, index: number): MotionStyle {
+  let previous: MotionStyle | null = null;
+  for (let i = 0; i <= index; i++) {
+    const candidates = AUTO_STYLES.filter((style) => style !== previous);
+    previous = candidates[seededValue(seed, i, "style") % candidates.length];
+  }
+  return previous!;
+}
+
+/**
+ * Camera move for a segment: the Segment's own motion, else MOTION_STYLE,
+ * else the story's seeded sequence
+ */
+export function resolveSegmentMotion(segment: {
+  storyId?: string | null;
+  sortedIndex?: number | null;
+  motion?: string | null;
+}): MotionPlan {
+  const seed = segment.storyId || "";
+  const index = Math.max(0, segment.sortedIndex ?? 0);
+  const requested = MOTION_STYLES.find((style) => style === segment.motion?.toLowerCase());
+  const style =
+    requested || (config.motion.style !== "auto" ? config.motion.style : getSequenceStyle(seed, index));
+
+  const zoom = Math.max(1, config.motion.maxZoom);
+  switch (style) {
+    case "zoom-in":
+      return { style, zoomFrom: 1, zoomTo: zoom, xFrom: 0.5, xTo: 0.5, yFrom: 0.5, yTo: 0.5 };
+    case "zoom-out":
+      return { style, zoomFrom: zoom, zoomTo: 1, xFrom: 0.5, xTo: 0.5, yFrom: 0.5, yTo: 0.5 };
+    case "pan-left":
+      return { style, zoomFrom: zoom, zoomTo: zoom, xFrom: 1, xTo: 0, yFrom: 0.5, yTo: 0.5 };
+    case "pan-right":
+      return { style, zoomFrom: zoom, zoomTo: zoom, xFrom: 0, xTo: 1, yFrom: 0.5, yTo: 0.5 };
+    case "pan-up":
+      return { style, zoomFrom: zoom, zoomTo: zoom, xFrom: 0.5, xTo: 0.5, yFrom: 1, yTo: 0 };
+    case "pan-down":
+      return { style, zoomFrom: zoom, zoomTo: zoom, xFrom: 0.5, xTo: 0.5, yFrom: 0, yTo: 1 };
+    case "zoom-to-point": {
+      // Push in further than a plain zoom; the window drifts toward the point as the zoom grows
+      const point = FOCUS_POINTS[seededValue(seed, index, "point") % FOCUS_POINTS.length];
+      return {
+        style,
+        zoomFrom: 1,
+        zoomTo: 1 + (zoom - 1) * 2,
+        xFrom: point.x,
+        xTo: point.x,
+        yFrom: point.y,
+        yTo: point.y,
+      };
+    }
+    case "static":
+      return { style, zoomFrom: 1, zoomTo: 1, xFrom: 0.5, xTo: 0.5, yFrom: 0.5, yTo: 0.5 };
+  }
+}
+
+// Round to keep the filter strings (and render fingerprints) short and stable
+const round = (value: number) => Number(value.toFixed(4));
+
+/**
+ * FFmpeg filters that fill the preset's frame with the image and play the move over `duration` seconds.
+ * The move is interpolated per output frame, so its speed follows the segment length, and the image
+ * is upscaled first so zoompan's whole-pixel positions don't make the motion jitter.
+ */
+export function buildMotionFilter(
+  plan: MotionPlan,
+  duration: number,
+  renderPreset: RenderPreset
+): string {
+  const { width, height, fps } = renderPreset;
+  const supersample = Math.max(1, Math.round(config.motion.supersample));
+  const sourceWidth = width * supersample;
+  const sourceHeight = height * supersample;
+  const frames = Math.max(1, Math.ceil(duration * fps));
+
+  // 0 on the first frame, 1 on the last
+  const progress = `min(on/${Math.max(1, frames - 1)},1)`;
+  const lerp = (from: number, to: number) =>
+    from === to ? `${round(from)}` : `(${round(from)}+(${round(to - from)})*${progress})`;
+
+  return [
+    // Fill the frame, cropping whatever of the image doesn't fit the preset's aspect ratio
+    `scale=${sourceWidth}:${sourceHeight}:force_original_aspect_ratio=increase`,
+    `crop=${sourceWidth}:${sourceHeight}`,
+    "setsar=1",
+    `zoompan=z='${lerp(plan.zoomFrom, plan.zoomTo)}'` +
+      `:x='(iw-iw/zoom)*${lerp(plan.xFrom, plan.xTo)}'` +
+      `:y='(ih-ih/zoom)*${lerp(plan.yFrom, plan.yTo)}'` +
+      `:d=${frames}:s=${width}x${height}:fps=${fps}`,
+  ].join(",");
+}
@@ -0,0 +1,39 @@
+import { config } from "../config/config";
+import { MusicMix } from "./ffmpeg-service";
+import { fetchAsset } from "./asset-service";
+
+// Music settings a Video row can override
+export interface VideoMusicSettings {
+  musicTrack?: string | null;
+  musicGain?: number | null;
+}
+
+// A resolved music bed ready to be mixed
+export interface MusicBed {
+  path: string;
+  mix: MusicMix;
+}
+
+/**
+ * The music bed for a video, or null when it has none.
+ * The Video's musicTrack and musicGain win over MUSIC_TRACK and MUSIC_GAIN.
+ */
+export async function resolveMusicBed(
+  video: VideoMusicSettings,
+  workDir: string
+): Promise<MusicBed | null> {
+  const track = video.musicTrack?.trim() || config.music.track;
+  if (!track) {
+    return null;
+  }
+
+  return {
+    path: await fetchAsset(track, config.music.libraryDir, workDir, "music"),
+    mix: {
+      gain: video.musicGain ?? config.music.gain,
+      fadeIn: config.music.fadeIn,
+      fadeOut: config.music.fadeOut,
+      duck: config.music.duck,
+    },
+  };
+}
@@ -0,0 +1,147 @@
+import fs from "fs";
+import path from "path";
+import { config } from "../config/config";
+import { supabasePublic } from "./supabase";
+import {
+  createAnimatedPreview,
+  createSpriteSheet,
+  extractPoster,
+} from "./ffmpeg-service";
+import { getFontsDir } from "./caption-profile-service";
+import { RenderPreset } from "./render-preset-service";
+import { buildStoragePath, uploadFile } from "./storage-service";
+import { formatVtt } from "./subtitle-service";
+import { temporaryError } from "../utils/errors";
+import { SubtitleCue } from "../types";
+
+// Preview artifacts recorded on the Video row
+export interface VideoPreviews {
+  posterURL: string;
+  previewURL: string;
+  // WebVTT index into the thumbnail sprite sheet
+  thumbnailsURL: string;
+}
+
+// Where the story (between any intro and outro) sits in the finalized video
+export interface StoryWindow {
+  start: number;
+  end: number;
+}
+
+async function fetchStoryTitle(storyId: string): Promise<string | null> {
+  if (!supabasePublic) {
+    return null;
+  }
+  const { data: story } = await supabasePublic
+    .from("Story")
+    .select("title")
+    .eq("id", storyId)
+    .maybeSingle();
+  return story?.title || null;
+}
+
+/**
+ * WebVTT cues pointing each interval of the video at its tile in the sprite sheet,
+ * the format video.js/Plyr/JW Player use for scrubbing previews
+ */
+function buildSpriteCues(
+  duration: number,
+  interval: number,
+  columns: number,
+  thumbWidth: number,
+  thumbHeight: number,
+  spriteFile: string
+): SubtitleCue[] {
+  const count = Math.max(1, Math.ceil(duration / interval));
+  return Array.from({ length: count }, (_, index) => ({
+    start: index * interval,
+    end: Math.min((index + 1) * interval, duration),
+    text: `${spriteFile}#xywh=${(index % columns) * thumbWidth},${
+      Math.floor(index / columns) * thumbHeight
+    },${thumbWidth},${thumbHeight}`,
+  }));
+}
+
+async function upload(filePath: string, videoId: string): Promise<string> {
+  const url = await uploadFile(
+    filePath,
+    buildStoragePath("videoArtifact", { videoId, fileName: path.basename(filePath) })
+  );
+  if (!url) {
+    throw temporaryError(`Failed to upload ${path.basename(filePath)}`, undefined, "upload");
+  }
+  return url;
+}
+
+/**
+ * Generate and upload a poster, an animated preview and a thumbnail sprite sheet
+ * with its WebVTT index for a finalized video
+ */
+export async function generatePreviews(
+  videoPath: string,
+  videoId: string,
+  storyId: string,
+  workDir: string,
+  duration: number,
+  story: StoryWindow,
+  renderPreset: RenderPreset
+): Promise<VideoPreviews> {
+  const { poster, animation, sprites } = config.previews;
+  const previewDir = path.join(workDir, "previews");
+  fs.mkdirSync(previewDir, { recursive: true });
+
+  // Poster and preview come from the story itself, not the intro
+  const storyLength = Math.max(0, story.end - story.start);
+  const posterTime = story.start + Math.min(poster.time, storyLength / 2);
+
+  const title = poster.title ? await fetchStoryTitle(storyId) : null;
+  const posterPath = path.join(previewDir, `poster.${poster.format}`);
+  await extractPoster(
+    videoPath,
+    posterPath,
+    posterTime,
+    title ? { text: title, font: poster.titleFont, fontsDir: getFontsDir() } : undefined
+  );
+
+  const previewPath = path.join(previewDir, `preview.${animation.format}`);
+  await createAnimatedPreview(
+    videoPath,
+    previewPath,
+    posterTime,
+    Math.min(animation.duration, Math.max(0.5, story.end - posterTime)),
+    animation.width,
+    animation.fps
+  );
+
+  const thumbWidth = Math.round(sprites.width / 2) * 2;
+  const thumbHeight =
+    Math.round((thumbWidth * renderPreset.height) / renderPreset.width / 2) * 2;
+  const cues = buildSpriteCues(
+    duration,
+    sprites.interval,
+    sprites.columns,
+    thumbWidth,
+    thumbHeight,
+    "sprites.jpg"
+  );
+  const spritePath = path.join(previewDir, "sprites.jpg");
+  await createSpriteSheet(
+    videoPath,
+    spritePath,
+    sprites.interval,
+    thumbWidth,
+    thumbHeight,
+    sprites.columns,
+    Math.ceil(cues.length / sprites.columns)
+  );
+  const indexPath = path.join(previewDir, "sprites.vtt");
+  fs.writeFileSync(indexPath, formatVtt(cues));
+
+  // The index refers to the sheet by relative path, so both live side by side
+  await upload(spritePath, videoId);
+  return {
+    posterURL: await upload(posterPath, videoId),
+    previewURL: await upload(previewPath, videoId),
+    thumbnailsURL: await upload(indexPath, videoId),
+  };
+}
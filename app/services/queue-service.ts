@@ -0,0 +1,225 @@
+import { config } from '../config/config';
+import { supabasePGMQPublic } from './supabase';
+import { logger } from '../utils/logger';
+
+// A message as returned by the pgmq read RPC
+export interface QueueMessage<T = any> {
+  msg_id: number;
+  read_ct: number;
+  enqueued_at: string;
+  vt: string;
+  message: T;
+}
+
+// Handle for a running lease extension loop
+export interface Lease {
+  stop: () => void;
+}
+
+function getClient() {
+  if (!supabasePGMQPublic) {
+    throw new Error('Supabase PGMQ client is not available');
+  }
+  return supabasePGMQPublic;
+}
+
+/**
+ * Read the next message from the queue without removing it.
+ * The message stays invisible to other consumers for `visibilityTimeout` seconds.
+ */
+export async function readMessage<T = any>(
+  queueName: string = config.queue.name,
+  visibilityTimeout: number = config.queue.visibilityTimeout
+): Promise<QueueMessage<T> | null> {
+  const { data, error } = await getClient().rpc('read', {
+    queue_name: queueName,
+    sleep_seconds: visibilityTimeout,
+    n: 1
+  });
+
+  if (error) {
+    throw error;
+  }
+
+  if (!data || data.length === 0) {
+    return null;
+  }
+
+  return data[0] as QueueMessage<T>;
+}
+
+/**
+ * Read up to `count` messages at once, used to browse queues such as the dead-letter queue
+ */
+export async function readMessages<T = any>(
+  queueName: string,
+  count: number,
+  visibilityTimeout: number = 0
+): Promise<QueueMessage<T>[]> {
+  const { data, error } = await getClient().rpc('read', {
+    queue_name: queueName,
+    sleep_seconds: visibilityTimeout,
+    n: count
+  });
+
+  if (error) {
+    throw error;
+  }
+
+  return (data || []) as QueueMessage<T>[];
+}
+
+/**
+ * Look up a message by its id without leasing it or counting it as a read
+ * @returns Null if the message is no longer in the queue
+ */
+export async function getMessage<T = any>(
+  msgId: number,
+  queueName: string = config.queue.name
+): Promise<QueueMessage<T> | null> {
+  const { data, error } = await getClient().rpc('get_message', {
+    queue_name: queueName,
+    msg_id: msgId
+  });
+
+  if (error) {
+    throw error;
+  }
+
+  if (!data || data.length === 0) {
+    return null;
+  }
+
+  return data[0] as QueueMessage<T>;
+}
+
+/**
+ * Send a new message to a queue, returning its message id
+ */
+export async function sendMessage(
+  queueName: string,
+  message: Record<string, any>,
+  delaySeconds: number = 0
+): Promise<number> {
+  const { data, error } = await getClient().rpc('send', {
+    queue_name: queueName,
+    message,
+    sleep_seconds: delaySeconds
+  });
+
+  if (error) {
+    throw error;
+  }
+
+  return Array.isArray(data) ? data[0] : data;
+}
+
+/**
+ * Push the visibility timeout of a message `seconds` into the future
+ * @returns False if the message is no longer in the queue
+ */
+export async function setVisibilityTimeout(
+  msgId: number,
+  seconds: number,
+  queueName: string = config.queue.name
+): Promise<boolean> {
+  const { data, error } = await getClient().rpc('set_vt', {
+    queue_name: queueName,
+    msg_id: msgId,
+    vt: seconds
+  });
+
+  if (error) {
+    throw error;
+  }
+
+  return Array.isArray(data) ? data.length > 0 : Boolean(data);
+}
+
+/**
+ * Archive a message once we're done with it (kept in the archive table for auditing)
+ */
+export async function archiveMessage(
+  msgId: number,
+  queueName: string = config.queue.name
+): Promise<void> {
+  const { error } = await getClient().rpc('archive', {
+    queue_name: queueName,
+    msg_id: msgId
+  });
+
+  if (error) {
+    throw error;
+  }
+}
+
+/**
+ * Permanently delete a message from the queue
+ */
+export async function deleteMessage(
+  msgId: number,
+  queueName: string = config.queue.name
+): Promise<void> {
+  const { error } = await getClient().rpc('delete', {
+    queue_name: queueName,
+    msg_id: msgId
+  });
+
+  if (error) {
+    throw error;
+  }
+}
+
+/**
+ * Keep a message leased while long running work (FFmpeg, Whisper) is in progress.
+ * The lease is renewed at half the visibility timeout so it never lapses between renewals.
+ */
+export function startLease(
+  msgId: number,
+  queueName: string = config.queue.name,
+  visibilityTimeout: number = config.queue.visibilityTimeout
+): Lease {
+  const renewEveryMs = Math.max(1000, (visibilityTimeout * 1000) / 2);
+
+  const timer = setInterval(async () => {
+    try {
+      await setVisibilityTimeout(msgId, visibilityTimeout, queueName);
+      logger.debug('Extended message lease', { msgId, visibilityTimeout });
+    } catch (error) {
+      logger.warn('Failed to extend message lease', { msgId, error });
+    }
+  }, renewEveryMs);
+
+  return {
+    stop: () => clearInterval(timer)
+  };
+}
+
+/**
+ * Backoff before the next attempt, doubling per read and capped at `retryMaxDelay`
+ */
+export function getRetryDelay(readCount: number): number {
+  const { retryBaseDelay, retryMaxDelay } = config.queue;
+  const exponent = Math.max(0, readCount - 1);
+  return Math.min(retryBaseDelay * Math.pow(2, exponent), retryMaxDelay);
+}
+
+/**
+ * Whether a message has used up all of its attempts
+ */
+export function hasExhaustedRetries(message: QueueMessage): boolean {
+  return message.read_ct >= config.queue.maxReadCount;
+}
+
+/**
+ * Make a failed message visible again after the backoff delay.
+ * pgmq increments read_ct on the next read, so attempts keep counting up.
+ */
+export async function scheduleRetry(
+  message: QueueMessage,
+  queueName: string = config.queue.name
+): Promise<number> {
+  const delay = getRetryDelay(message.read_ct);
+  await setVisibilityTimeout(message.msg_id, delay, queueName);
+  return delay;
+}
@@ -0,0 +1,126 @@
+import fs from "fs";
+import { config } from "../config/config";
+import { permanentError } from "../utils/errors";
+
+/**
+ * Frame size, frame rate and encoder settings shared by a video's segment and merge renders
+ */
+export interface RenderPreset {
+  name: string;
+  width: number;
+  height: number;
+  fps: number;
+  videoCodec: string;
+  // x264/x265 speed preset
+  preset: string;
+  crf: number;
+}
+
+// Presets available without a presets file
+const BUILT_IN_PRESETS: Record<string, Omit<RenderPreset, "name">> = {
+  // 16:9 for YouTube and the web
+  "1080p": {
+    width: 1920,
+    height: 1080,
+    fps: 30,
+    videoCodec: "libx264",
+    preset: "medium",
+    crf: 23,
+  },
+  // 9:16 for Shorts, TikTok and Reels
+  "vertical-1080p": {
+    width: 1080,
+    height: 1920,
+    fps: 30,
+    videoCodec: "libx264",
+    preset: "medium",
+    crf: 23,
+  },
+  // 1:1 for feeds
+  "square-1080p": {
+    width: 1080,
+    height: 1080,
+    fps: 30,
+    videoCodec: "libx264",
+    preset: "medium",
+    crf: 23,
+  },
+  // 4:5 for Instagram feed posts
+  "portrait-1080p": {
+    width: 1080,
+    height: 1350,
+    fps: 30,
+    videoCodec: "libx264",
+    preset: "medium",
+    crf: 23,
+  },
+  // Quick, small 16:9 renders for reviewing a story before the final render
+  "draft-720p": {
+    width: 1280,
+    height: 720,
+    fps: 24,
+    videoCodec: "libx264",
+    preset: "veryfast",
+    crf: 30,
+  },
+};
+
+let presets: Map<string, RenderPreset> | null = null;
+
+/**
+ * Load the built-in presets plus those in RENDER_PRESETS_FILE.
+ * The file holds an object of preset name to settings; a preset named after a built-in one
+ * only needs the settings it changes.
+ */
+function loadPresets(): Map<string, RenderPreset> {
+  if (presets) {
+    return presets;
+  }
+
+  let fileDefinitions: Record<string, Partial<RenderPreset>> = {};
+  if (config.render.presetsFile) {
+    try {
+      fileDefinitions = JSON.parse(fs.readFileSync(config.render.presetsFile, "utf-8"));
+    } catch (error: any) {
+      throw new Error(
+        `Failed to load render presets from ${config.render.presetsFile}: ${error?.message || error}`
+      );
+    }
+  }
+
+  const loaded = new Map<string, RenderPreset>();
+  for (const [name, definition] of Object.entries(BUILT_IN_PRESETS)) {
+    loaded.set(name, { ...definition, name });
+  }
+  for (const [name, definition] of Object.entries(fileDefinitions)) {
+    const base = loaded.get(name) || { ...BUILT_IN_PRESETS["1080p"], name };
+    const preset = { ...base, ...definition, name };
+    // Encoders reject odd frame sizes with yuv420p
+    if (preset.width % 2 !== 0 || preset.height % 2 !== 0) {
+      throw new Error(`Render preset "${name}" must have an even width and height`);
+    }
+    loaded.set(name, preset);
+  }
+
+  presets = loaded;
+  return presets;
+}
+
+/**
+ * Every available render preset
+ */
+export function listRenderPresets(): RenderPreset[] {
+  return Array.from(loadPresets().values());
+}
+
+/**
+ * Look up a render preset, falling back to RENDER_PRESET when no name is given
+ */
+export function getRenderPreset(name?: string | null): RenderPreset {
+  const presetName = name || config.render.preset;
+  const preset = loadPresets().get(presetName);
+  if (!preset) {
+    throw permanentError(`Unknown render preset "${presetName}"`, undefined, "validate");
+  }
+  return preset;
+}
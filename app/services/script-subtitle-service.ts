@@ -0,0 +1,185 @@
+import { Transcript, TranscriptSegment, TranscriptWord } from "../types";
+import { SilenceRange } from "./ffmpeg-service";
+
+// A stretch of the audio where narration is heard
+interface SpeechRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * Rough syllable count of an English word, used as its share of the narration time.
+ * Words without latin letters (numbers, other scripts) are weighted by length instead.
+ */
+export function countSyllables(word: string): number {
+  const letters = word.toLowerCase().replace(/[^a-z]/g, "");
+  if (!letters) {
+    const characters = word.replace(/[^\p{L}\p{N}]/gu, "").length;
+    return Math.max(1, Math.ceil(characters / 3));
+  }
+  if (letters.length <= 3) {
+    return 1;
+  }
+
+  // Drop silent endings ("-es", "-ed", trailing "e") before counting vowel groups
+  const trimmed = letters
+    .replace(/(?:[^laeiouy]es|ed|[^laeiouy]e)$/, "")
+    .replace(/^y/, "");
+  const groups = trimmed.match(/[aeiouy]{1,2}/g);
+  return Math.max(1, groups ? groups.length : 1);
+}
+
+// Split the script into sentences, keeping their punctuation
+export function splitSentences(text: string): string[] {
+  return text
+    .replace(/\s+/g, " ")
+    .trim()
+    .split(/(?<=[.!?;:])\s+/)
+    .filter((sentence) => sentence.length > 0);
+}
+
+// Furthest a sentence break is moved to land in a detected pause, in seconds
+const MAX_PAUSE_SNAP = 1.5;
+
+/**
+ * The parts of [start, end] that aren't silence.
+ * Falls back to the whole window if it is (nearly) all silence.
+ */
+function getSpeechRanges(start: number, end: number, silences: SilenceRange[]): SpeechRange[] {
+  const ranges: SpeechRange[] = [];
+  let cursor = start;
+
+  for (const silence of silences) {
+    const silenceStart = Math.min(Math.max(silence.start, start), end);
+    if (silenceStart > cursor) {
+      ranges.push({ start: cursor, end: silenceStart });
+    }
+    cursor = Math.max(cursor, Math.min(silence.end, end));
+  }
+  if (cursor < end) {
+    ranges.push({ start: cursor, end });
+  }
+
+  return ranges.length > 0 ? ranges : [{ start, end }];
+}
+
+/**
+ * Give each word a share of the speech ranges proportional to its weight,
+ * skipping the pauses between ranges
+ */
+function layoutWords(
+  words: { word: string; weight: number }[],
+  speech: SpeechRange[]
+): TranscriptWord[] {
+  const speechDuration = speech.reduce((total, range) => total + range.end - range.start, 0);
+  const totalWeight = words.reduce((total, word) => total + word.weight, 0) || 1;
+
+  // Map a point on the speech-only timeline back onto the audio timeline.
+  // A word starting exactly where a range ends belongs after the pause that follows it.
+  const toAudioTime = (speechTime: number, isStart: boolean) => {
+    let remaining = speechTime;
+    for (let i = 0; i < speech.length; i++) {
+      const length = speech[i].end - speech[i].start;
+      const fits = isStart ? remaining < length : remaining <= length;
+      if (fits || i === speech.length - 1) {
+        return { time: speech[i].start + Math.min(remaining, length), range: i };
+      }
+      remaining -= length;
+    }
+    return { time: speech[speech.length - 1].end, range: speech.length - 1 };
+  };
+
+  let elapsedWeight = 0;
+  return words.map(({ word, weight }) => {
+    const start = toAudioTime((elapsedWeight / totalWeight) * speechDuration, true);
+    elapsedWeight += weight;
+    const end = toAudioTime((elapsedWeight / totalWeight) * speechDuration, false);
+
+    // A word never runs across a pause; it ends where its stretch of speech does
+    return {
+      word,
+      start: start.time,
+      end: end.range === start.range ? end.time : speech[start.range].end,
+    };
+  });
+}
+
+/**
+ * Estimate word timings for a script read over an audio track.
+ * Sentence breaks are first estimated from the syllable count, then moved into the nearest
+ * detected pause; within a sentence each word gets time proportional to its syllables.
+ */
+export function buildScriptTranscript(
+  text: string,
+  duration: number,
+  silences: SilenceRange[] = []
+): Transcript {
+  const sortedSilences = [...silences].sort((a, b) => a.start - b.start);
+  const sentences = splitSentences(text).map((sentence) =>
+    sentence.split(" ").map((word) => ({ word, weight: countSyllables(word) }))
+  );
+
+  // Estimated end of each sentence if the narration ran at an even pace
+  const estimate = layoutWords(sentences.flat(), getSpeechRanges(0, duration, sortedSilences));
+  let wordIndex = 0;
+  const estimatedBreaks = sentences.map((sentence) => {
+    wordIndex += sentence.length;
+    return estimate[wordIndex - 1].end;
+  });
+
+  // Pauses inside the narration, not the lead-in or tail silence
+  const pauses = sortedSilences.filter(
+    (silence) => silence.start > 0 && silence.end < duration
+  );
+
+  // Snap each sentence break into the closest unused pause, in order
+  const windows: SpeechRange[] = [];
+  let windowStart = 0;
+  let nextPause = 0;
+  for (let i = 0; i < sentences.length - 1; i++) {
+    const estimated = estimatedBreaks[i];
+    let best = -1;
+    let bestDistance = Infinity;
+    for (let j = nextPause; j < pauses.length; j++) {
+      const distance = Math.max(pauses[j].start - estimated, estimated - pauses[j].end, 0);
+      if (distance < bestDistance) {
+        best = j;
+        bestDistance = distance;
+      }
+    }
+
+    if (best >= 0 && bestDistance <= MAX_PAUSE_SNAP) {
+      windows.push({ start: windowStart, end: pauses[best].start });
+      windowStart = pauses[best].end;
+      nextPause = best + 1;
+    } else {
+      windows.push({ start: windowStart, end: estimated });
+      windowStart = estimated;
+    }
+  }
+  windows.push({ start: windowStart, end: duration });
+
+  const segments: TranscriptSegment[] = sentences.map((sentence, index) => {
+    const window = windows[index];
+    const words = layoutWords(
+      sentence,
+      getSpeechRanges(window.start, window.end, sortedSilences)
+    );
+
+    return {
+      start: words[0].start,
+      end: words[words.length - 1].end,
+      text: sentence.map(({ word }) => word).join(" "),
+      words,
+    };
+  });
+
+  return {
+    provider: "script",
+    model: "syllable-weighted",
+    language: "",
+    text: segments.map((segment) => segment.text).join(" "),
+    segments,
+    words: segments.flatMap((segment) => segment.words),
+  };
+}
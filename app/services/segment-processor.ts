@@ -1,13 +1,103 @@
 import fs from "fs";
 import path from "path";
+import crypto from "crypto";
 import { supabasePublic } from "./supabase";
-import { config } from "../config/config";
-import { downloadFile, getAudioDuration, createVideo } from "./ffmpeg-service";
-import { uploadFile } from "./storage-service";
-import { transcribeAudio } from "./transcription-service";
+import { CAPTION_LANGUAGES, CaptionLanguage, config } from "../config/config";
+import {
+  downloadFile,
+  getAudioDuration,
+  createVideo,
+  detectSilences,
+} from "./ffmpeg-service";
+import { buildStoragePath, uploadFile } from "./storage-service";
+import {
+  TranscriptionOverrides,
+  resolveTranscriptionSettings,
+  transcribeAudio,
+} from "./transcription-service";
+import {
+  buildHighlightedCues,
+  formatKaraokeAss,
+  formatSrt,
+} from "./subtitle-service";
+import {
+  getCaptionProfile,
+  getFontsDir,
+  getMaxLineLength,
+  toForceStyle,
+  toKaraokeOptions,
+} from "./caption-profile-service";
+import { getRenderPreset } from "./render-preset-service";
+import { resolveSegmentMotion } from "./motion-service";
+import { buildScriptTranscript } from "./script-subtitle-service";
+import { alignTranscriptToScript } from "./alignment-service";
+import {
+  getCachedFile,
+  getCachedJson,
+  hashFile,
+  putCachedFile,
+  putCachedJson,
+} from "./cache-service";
+import { Job, setJobProgress, setJobState, setJobStory } from "./job-service";
+import {
+  ProcessingError,
+  permanentError,
+  temporaryError,
+  withStage,
+} from "../utils/errors";
+import { SubtitleSource, Transcript, TranscriptTranslations } from "../types";
+
+// Inputs that determine what a segment's rendered video looks like
+export interface SegmentRenderInputs {
+  imageURL?: string | null;
+  audioURL?: string | null;
+  text?: string | null;
+  // Story and position seed the automatic camera move; motion picks one explicitly
+  storyId?: string | null;
+  sortedIndex?: number | null;
+  motion?: string | null;
+}
+
+// Subtitle words for a segment and how they were produced
+interface SubtitleTranscript {
+  transcript: Transcript;
+  source: SubtitleSource;
+  // How closely the transcription matched the script, when they were aligned
+  alignmentConfidence?: number;
+}
+
+// Result of rendering a segment
+export interface SegmentRenderResult {
+  videoURL: string;
+  renderHash: string;
+  duration: number;
+  subtitleSource: SubtitleSource | null;
+  alignmentConfidence?: number;
+  // Subtitle words in segment time, kept for the finalized video's sidecar and soft subtitles
+  transcript: Transcript | null;
+  translations: TranscriptTranslations;
+}
+
+// Per-job settings for a segment render, taken from the queue message
+export interface ProcessSegmentOptions {
+  transcription?: TranscriptionOverrides;
+  // Caption profile name; standalone segments fall back to their Story's profile
+  captionProfile?: string;
+  // Render preset name, defaulting to RENDER_PRESET
+  renderPreset?: string;
+  // Burned-in subtitle language ("original" or "en"), defaulting to CAPTION_LANGUAGE
+  captionLanguage?: string;
+}
+
+// Settings picked on a Story row
+export interface StorySettings {
+  captionProfile: string | null;
+  // Spoken language of the narration, ISO 639-1
+  language: string | null;
+}
 
 // Validate URL format
-function isValidUrl(urlString: string): boolean {
+export function isValidUrl(urlString: string): boolean {
   try {
     const url = new URL(urlString);
     return url.protocol === "http:" || url.protocol === "https:";
@@ -16,110 +106,494 @@ function isValidUrl(urlString: string): boolean {
   }
 }
 
+/**
+ * Fingerprint of everything that goes into a segment render.
+ * A stored video can be reused as long as its fingerprint still matches.
+ */
+export function computeSegmentRenderHash(
+  inputs: SegmentRenderInputs,
+  options: ProcessSegmentOptions = {}
+): string {
+  // The device doesn't change the transcript, so only the engine, model and language count
+  const { provider, model, language } = resolveTranscriptionSettings(
+    options.transcription
+  );
+
+  return crypto
+    .createHash("sha256")
+    .update(
+      JSON.stringify({
+        imageURL: inputs.imageURL || null,
+        audioURL: inputs.audioURL || null,
+        text: inputs.text || null,
+        motion: resolveSegmentMotion(inputs),
+        supersample: config.motion.supersample,
+        renderPreset: getRenderPreset(options.renderPreset),
+        transcription: { provider, model, language },
+        subtitleMode: config.subtitles.mode,
+        alignScript: config.subtitles.alignScript,
+        burnCaptions: config.subtitles.delivery !== "soft",
+        translate: config.subtitles.translate,
+        captionLanguage: getCaptionLanguage(options.captionLanguage),
+        captions: getCaptionProfile(options.captionProfile),
+      })
+    )
+    .digest("hex");
+}
+
+/**
+ * Burned-in subtitle language, falling back to CAPTION_LANGUAGE when none is given
+ */
+export function getCaptionLanguage(value?: string | null): CaptionLanguage {
+  const language = value || config.captions.language;
+  if (!CAPTION_LANGUAGES.includes(language as CaptionLanguage)) {
+    throw permanentError(
+      `Unknown caption language "${language}", expected one of ${CAPTION_LANGUAGES.join(", ")}`,
+      undefined,
+      "validate"
+    );
+  }
+  return language as CaptionLanguage;
+}
+
+// What a segment render produced besides the video file itself
+type SegmentRender = Omit<SegmentRenderResult, "videoURL" | "renderHash">;
+
+// A cached render is stored as two entries: the video and what the render produced
+async function getCachedSegmentRender(
+  key: string,
+  videoPath: string
+): Promise<SegmentRender | null> {
+  if (!(await getCachedFile("segment", `${key}:video`, videoPath))) {
+    return null;
+  }
+  // Already counted as a hit by the video lookup
+  return getCachedJson<SegmentRender>("segment", `${key}:result`, false);
+}
+
+async function putCachedSegmentRender(
+  key: string,
+  videoPath: string,
+  render: SegmentRender
+): Promise<void> {
+  await putCachedFile("segment", `${key}:video`, videoPath);
+  await putCachedJson("segment", `${key}:result`, render);
+}
+
+/**
+ * Caption profile and narration language picked on a Story row, if any
+ */
+export async function fetchStorySettings(storyId: string): Promise<StorySettings> {
+  if (!supabasePublic) {
+    throw temporaryError("Supabase client is not initialized", undefined, "validate");
+  }
+
+  const { data: story, error } = await supabasePublic
+    .from("Story")
+    .select("captionProfile, language")
+    .eq("id", storyId)
+    .maybeSingle();
+
+  if (error) {
+    throw temporaryError(
+      `Failed to fetch story ${storyId}: ${error.message}`,
+      error,
+      "validate"
+    );
+  }
+
+  return {
+    captionProfile: story?.captionProfile || null,
+    language: story?.language || null,
+  };
+}
+
+/**
+ * Persist a rendered segment's video URL, fingerprint and subtitle transcript on the Segment row
+ */
+export async function updateSegmentVideo(
+  segmentId: string,
+  result: Pick<SegmentRenderResult, "videoURL" | "renderHash" | "transcript" | "translations">
+): Promise<void> {
+  if (!supabasePublic) {
+    throw temporaryError(
+      "Supabase client is not initialized",
+      undefined,
+      "db_update"
+    );
+  }
+
+  const { data: updatedSegment, error: updateError } = await supabasePublic
+    .from("Segment")
+    .update({
+      videoURL: result.videoURL,
+      renderHash: result.renderHash,
+      transcript: result.transcript,
+      translations: result.translations,
+    })
+    .eq("id", segmentId)
+    .select();
+
+  if (updateError || !updatedSegment || updatedSegment.length === 0) {
+    throw temporaryError(
+      `Update failed: ${updateError?.message || "Unknown update error"}`,
+      updateError,
+      "db_update"
+    );
+  }
+}
+
+/**
+ * Use the script's spelling and punctuation with the transcribed timings,
+ * unless the two disagree so much that the script probably isn't what was said
+ */
+function alignWithScript(transcript: Transcript, script: string): SubtitleTranscript {
+  const alignment = alignTranscriptToScript(transcript, script);
+  const alignmentConfidence = Number(alignment.confidence.toFixed(3));
+
+  if (alignment.confidence < config.subtitles.minAlignmentConfidence) {
+    console.warn(
+      `Script alignment confidence ${alignmentConfidence} is below ${config.subtitles.minAlignmentConfidence}, keeping the transcribed words`
+    );
+    return { transcript, source: "transcription", alignmentConfidence };
+  }
+
+  console.log(`Aligned transcription with the script (confidence ${alignmentConfidence})`);
+  return { transcript: alignment.transcript, source: "aligned", alignmentConfidence };
+}
+
+/**
+ * Word timings for a segment's subtitles, taken from transcription or the script
+ * depending on SUBTITLE_MODE. Resolves with null when there is nothing to caption.
+ */
+async function getSubtitleTranscript(
+  audioPath: string,
+  script: string | null | undefined,
+  duration: number,
+  options: ProcessSegmentOptions
+): Promise<SubtitleTranscript | null> {
+  const mode = config.subtitles.mode;
+  const hasScript = Boolean(script?.trim());
+
+  if (mode !== "script-only") {
+    try {
+      const transcript = await transcribeAudio(audioPath, options.transcription);
+      return hasScript && config.subtitles.alignScript
+        ? alignWithScript(transcript, script!)
+        : { transcript, source: "transcription" };
+    } catch (error) {
+      if (mode === "fail-hard" || !hasScript) {
+        throw error;
+      }
+      console.warn(
+        "Transcription failed, timing subtitles from the segment script instead:",
+        error
+      );
+    }
+  }
+
+  if (!hasScript) {
+    console.warn("Segment has no script text, rendering without subtitles");
+    return null;
+  }
+
+  // Pauses only refine the timing, so carry on without them if detection fails
+  let silences: Awaited<ReturnType<typeof detectSilences>> = [];
+  try {
+    silences = await detectSilences(
+      audioPath,
+      config.subtitles.silenceThreshold,
+      config.subtitles.silenceMinDuration
+    );
+  } catch (error) {
+    console.warn("Silence detection failed, spreading the script evenly:", error);
+  }
+
+  // The script is in the narration language, when it is known
+  const { language } = resolveTranscriptionSettings(options.transcription);
+  return {
+    transcript: {
+      ...buildScriptTranscript(script!, duration, silences),
+      language: language === "auto" ? "" : language,
+    },
+    source: "script",
+  };
+}
+
+/**
+ * English translation of a segment's narration via whisper's translate task.
+ * Nothing is translated when the narration is already English or its language isn't known.
+ */
+async function translateSubtitles(
+  audioPath: string,
+  subtitles: SubtitleTranscript | null,
+  options: ProcessSegmentOptions
+): Promise<TranscriptTranslations> {
+  const language = subtitles?.transcript.language;
+  if (!config.subtitles.translate || !subtitles || !language || language === "en") {
+    return {};
+  }
+
+  try {
+    // The detected language saves whisper detecting it again
+    const translation = await transcribeAudio(
+      audioPath,
+      { ...options.transcription, language },
+      "translate"
+    );
+    return translation.words.length > 0 ? { en: translation } : {};
+  } catch (error) {
+    if (config.subtitles.mode === "fail-hard") {
+      throw error;
+    }
+    console.warn("Translation failed, rendering without English subtitles:", error);
+    return {};
+  }
+}
+
 // Process a segment to create a video
+// Progress is reported on the optional job; throws a ProcessingError describing
+// whether the failure is worth retrying
 export async function processSegment(
-  segmentId: string
-): Promise<string | null> {
+  segmentId: string,
+  job?: Job,
+  options: ProcessSegmentOptions = {}
+): Promise<SegmentRenderResult> {
   try {
     console.log(`Starting to process segment ${segmentId}`);
 
     // Check if supabasePublic is available
     if (!supabasePublic) {
-      throw new Error("Supabase client is not initialized");
+      throw temporaryError("Supabase client is not initialized");
     }
 
     // 1. Get segment data from database
     const { data: segment, error: segmentError } = await supabasePublic
       .from("Segment")
-      .select("imageURL, audioURL, storyId, text")
+      .select("imageURL, audioURL, storyId, sortedIndex, text, motion")
       .eq("id", segmentId)
       .single();
 
     if (segmentError || !segment) {
-      throw new Error(
+      // A missing row (PGRST116 from .single()) won't appear on retry,
+      // but any other query error might be transient
+      const isMissing = !segmentError || segmentError.code === "PGRST116";
+      const createError = isMissing ? permanentError : temporaryError;
+      throw createError(
         `Failed to fetch segment ${segmentId}: ${
           segmentError?.message || "Segment not found"
-        }`
+        }`,
+        segmentError,
+        "validate"
       );
     }
 
     // Validate URL fields
     if (!segment.imageURL || !segment.audioURL) {
-      throw new Error(`Segment ${segmentId} is missing image or audio URL`);
+      throw permanentError(
+        `Segment ${segmentId} is missing image or audio URL`,
+        undefined,
+        "validate"
+      );
     }
 
     if (!isValidUrl(segment.imageURL) || !isValidUrl(segment.audioURL)) {
-      throw new Error(`Segment ${segmentId} has invalid image or audio URL format: 
+      throw permanentError(
+        `Segment ${segmentId} has invalid image or audio URL format: 
         imageURL: ${segment.imageURL}, 
-        audioURL: ${segment.audioURL}`);
+        audioURL: ${segment.audioURL}`,
+        undefined,
+        "validate"
+      );
+    }
+
+    setJobStory(job, segment.storyId);
+
+    if (
+      segment.storyId &&
+      (!options.captionProfile || !options.transcription?.language)
+    ) {
+      const story = await fetchStorySettings(segment.storyId);
+      options = {
+        ...options,
+        captionProfile: options.captionProfile || story.captionProfile || undefined,
+        transcription: {
+          ...options.transcription,
+          language: options.transcription?.language || story.language || undefined,
+        },
+      };
     }
+    const captionProfile = getCaptionProfile(options.captionProfile);
+    const captionLanguage = getCaptionLanguage(options.captionLanguage);
+    const renderPreset = getRenderPreset(options.renderPreset);
+    const { width, height } = renderPreset;
 
     console.log(
       `Processing segment ${segmentId} with image ${segment.imageURL} and audio ${segment.audioURL}`
     );
 
-    // 2. Create temp directory for processing
-    const segmentTempDir = path.join(
-      config.paths.tempDir,
-      config.paths.processingDir,
-      segmentId
-    );
-    fs.mkdirSync(segmentTempDir, { recursive: true });
+    // 2. Create a temp directory for this run. A segment can be rendered by the segment
+    // queue and a video job at the same time, so each run gets its own.
+    const processingDir = path.join(config.paths.tempDir, config.paths.processingDir);
+    fs.mkdirSync(processingDir, { recursive: true });
+    const segmentTempDir = fs.mkdtempSync(path.join(processingDir, `${segmentId}-`));
 
     try {
       // 3. Define file paths
       const imagePath = path.join(segmentTempDir, "image.jpg");
       const audioPath = path.join(segmentTempDir, "audio.mp3");
       const videoPath = path.join(segmentTempDir, "output.mp4");
-      const subtitlesPath = path.join(segmentTempDir, "subtitles.srt");
+      const subtitlesPath = path.join(
+        segmentTempDir,
+        captionProfile.mode === "karaoke" ? "subtitles.ass" : "subtitles.srt"
+      );
 
       // 4. Download files
-      // Create downloads directory if it doesn't exist
-      const downloadsDir = path.join(config.paths.tempDir, "downloads");
-      fs.mkdirSync(downloadsDir, { recursive: true });
-
+      setJobState(job, "downloading");
       const imageDownloaded = await downloadFile(segment.imageURL, imagePath);
       const audioDownloaded = await downloadFile(segment.audioURL, audioPath);
 
       if (!imageDownloaded || !audioDownloaded) {
-        throw new Error("Failed to download image or audio files");
+        throw temporaryError(
+          "Failed to download image or audio files",
+          undefined,
+          "download"
+        );
       }
 
       // 5. Get audio duration
-      const duration = await getAudioDuration(audioPath);
+      const duration = await withStage("probe", () =>
+        getAudioDuration(audioPath)
+      );
 
-      // 6. Get precise word timings from audio using Whisper
-      try {
-        // Use Whisper to get word-level timings
-        const subtitleContent = await transcribeAudio(audioPath);
-        // Write directly to subtitle file since Whisper now outputs SRT format
-        fs.writeFileSync(subtitlesPath, subtitleContent);
-      } catch (err) {
-        console.error("Failed to generate subtitles:", err);
-        throw err;
-      }
+      // 6. Reuse an earlier render of the same image, audio and settings.
+      // The key hashes file contents, so a re-uploaded identical file still hits.
+      const renderCacheKey = config.cache.enabled
+        ? computeSegmentRenderHash(
+            {
+              ...segment,
+              imageURL: `sha256:${await hashFile(imagePath)}`,
+              audioURL: `sha256:${await hashFile(audioPath)}`,
+            },
+            options
+          )
+        : "";
+      let rendered = renderCacheKey
+        ? await getCachedSegmentRender(renderCacheKey, videoPath)
+        : null;
 
-      // 7. Create video with subtitles
-      await createVideo(
-        imagePath,
-        audioPath,
-        videoPath,
-        duration,
-        subtitlesPath
-      );
+      if (rendered) {
+        console.log(`Using cached render of segment ${segmentId}`);
+      } else {
+        // 7. Get word timings for the subtitles (transcription or script, per SUBTITLE_MODE)
+        setJobState(job, "transcribing");
+        let subtitles: SubtitleTranscript | null;
+        let translations: TranscriptTranslations;
+        // With soft-only delivery the captions go into the finalized video as a track instead
+        const burnCaptions = config.subtitles.delivery !== "soft";
+        let burnedTranscript: Transcript | null = null;
+        try {
+          subtitles = await withStage("transcribe", () =>
+            getSubtitleTranscript(audioPath, segment.text, duration, options)
+          );
+          translations = await withStage("transcribe", () =>
+            translateSubtitles(audioPath, subtitles, options)
+          );
+
+          burnedTranscript = subtitles?.transcript || null;
+          if (
+            captionLanguage !== "original" &&
+            burnedTranscript &&
+            burnedTranscript.language !== captionLanguage
+          ) {
+            if (translations[captionLanguage]) {
+              burnedTranscript = translations[captionLanguage];
+            } else {
+              console.warn(
+                `No ${captionLanguage} translation for segment ${segmentId}, burning in the original language`
+              );
+            }
+          }
+
+          if (burnedTranscript && burnCaptions) {
+            fs.writeFileSync(
+              subtitlesPath,
+              captionProfile.mode === "karaoke"
+                ? formatKaraokeAss(
+                    burnedTranscript,
+                    toKaraokeOptions(captionProfile, width, height)
+                  )
+                : formatSrt(
+                    buildHighlightedCues(
+                      burnedTranscript,
+                      getMaxLineLength(captionProfile, width, height)
+                    )
+                  )
+            );
+          }
+        } catch (err) {
+          console.error("Failed to generate subtitles:", err);
+          throw err;
+        }
+
+        // 8. Create video with subtitles
+        setJobState(job, "rendering");
+        await withStage("render", () =>
+          createVideo(
+            imagePath,
+            audioPath,
+            videoPath,
+            duration,
+            renderPreset,
+            resolveSegmentMotion(segment),
+            burnedTranscript && burnCaptions
+              ? {
+                  path: subtitlesPath,
+                  forceStyle: toForceStyle(captionProfile, width, height),
+                  fontsDir: getFontsDir(),
+                }
+              : undefined,
+            (progress) => setJobProgress(job, progress)
+          )
+        );
 
-      // 9. Upload video to Supabase storage
-      const videoFileName = `${segment.storyId}/${segmentId}.mp4`;
+        rendered = {
+          duration,
+          subtitleSource: subtitles?.source || null,
+          alignmentConfidence: subtitles?.alignmentConfidence,
+          transcript: subtitles?.transcript || null,
+          translations,
+        };
+        if (renderCacheKey) {
+          await putCachedSegmentRender(renderCacheKey, videoPath, rendered);
+        }
+      }
+
+      // 9. Upload video to storage
+      const videoFileName = buildStoragePath("segmentVideo", {
+        storyId: segment.storyId,
+        segmentId,
+        ext: "mp4",
+      });
       console.log(`Uploading video as ${videoFileName}`);
+      setJobState(job, "uploading");
       const videoUrl = await uploadFile(videoPath, videoFileName);
 
       if (!videoUrl) {
-        throw new Error("Failed to upload video to storage");
+        throw temporaryError(
+          "Failed to upload video to storage",
+          undefined,
+          "upload"
+        );
       }
 
       console.log(`Created video URL: ${videoUrl}`);
 
-      return videoUrl;
+      return {
+        videoURL: videoUrl,
+        renderHash: computeSegmentRenderHash(segment, options),
+        ...rendered,
+      };
     } finally {
       // 9. Clean up temp files
       try {
@@ -130,6 +604,12 @@ export async function processSegment(
     }
   } catch (error) {
     console.error("Error processing segment:", error);
-    return null;
+    if (error instanceof ProcessingError) {
+      throw error;
+    }
+    throw temporaryError(
+      `Failed to process segment ${segmentId}: ${(error as Error)?.message || error}`,
+      error
+    );
   }
 }
@@ -0,0 +1,35 @@
+import { QueueMessage, setVisibilityTimeout } from './queue-service';
+import { ProcessingError, temporaryError } from '../utils/errors';
+import { logger } from '../utils/logger';
+
+// Set on SIGTERM/SIGINT; from then on no new jobs are started
+let shuttingDown = false;
+
+export function isShuttingDown(): boolean {
+  return shuttingDown;
+}
+
+export function beginShutdown(): void {
+  shuttingDown = true;
+}
+
+/**
+ * The error a job cut short by shutdown is recorded with
+ */
+export function shutdownError(cause?: unknown): ProcessingError {
+  return temporaryError('Interrupted by server shutdown', cause);
+}
+
+/**
+ * Hand a message whose job was cut short straight back to the queue.
+ * It isn't a failure, so there's no backoff and nothing is dead-lettered.
+ */
+export async function returnMessage(message: QueueMessage, queueName: string): Promise<void> {
+  try {
+    await setVisibilityTimeout(message.msg_id, 0, queueName);
+    logger.info('Returned interrupted message to the queue', { msgId: message.msg_id, queueName });
+  } catch (error) {
+    // The lease lapses on its own, so the message comes back after the visibility timeout anyway
+    logger.warn('Failed to return interrupted message to the queue', { msgId: message.msg_id, error });
+  }
+}
@@ -0,0 +1,159 @@
+import fs from "fs";
+import path from "path";
+import { config } from "../config/config";
+import { buildStoragePath, uploadFile } from "./storage-service";
+import { buildCues, formatSrt, formatVtt } from "./subtitle-service";
+import { temporaryError } from "../utils/errors";
+import { SubtitleCue, Transcript, TranscriptTranslations } from "../types";
+
+// A segment's subtitle words and where the segment sits in the finalized video
+export interface SubtitleClip {
+  transcript: Transcript | null;
+  translations: TranscriptTranslations;
+  start: number;
+  // Where the next clip takes over (the start of the crossfade into it)
+  end: number;
+}
+
+// Whether a track holds the narration's own words or a translation of them
+export type SubtitleTrackKind = "original" | "translation";
+
+// Subtitle files covering the whole finalized video in one language
+export interface SidecarSubtitles {
+  kind: SubtitleTrackKind;
+  // ISO 639-1 code as reported by the transcription engine; empty when it isn't known
+  language: string;
+  srtPath: string;
+  vttPath: string;
+}
+
+// An uploaded subtitle track, as listed in the Video's subtitleTracks column
+export interface SubtitleTrackURLs {
+  kind: SubtitleTrackKind;
+  language: string;
+  srtURL: string;
+  vttURL: string;
+}
+
+// Sidecar subtitle URLs recorded on the Video row
+export interface SidecarSubtitleURLs {
+  // The original-language track
+  srtURL: string;
+  vttURL: string;
+  subtitleTracks: SubtitleTrackURLs[];
+}
+
+/**
+ * Cues for the whole finalized video: each clip's lines shifted by where the clip starts.
+ * Lines are cut off where the next clip takes over, so a crossfade never shows two captions.
+ */
+export function buildVideoCues(
+  clips: SubtitleClip[],
+  pickTranscript: (clip: SubtitleClip) => Transcript | null = (clip) => clip.transcript
+): SubtitleCue[] {
+  return clips
+    .flatMap((clip) => {
+      const transcript = pickTranscript(clip);
+      return transcript
+        ? buildCues(transcript).map((cue) => ({
+            start: clip.start + cue.start,
+            end: Math.min(clip.start + cue.end, clip.end),
+            text: cue.text,
+          }))
+        : [];
+    })
+    .filter((cue) => cue.end > cue.start);
+}
+
+// Script-timed transcripts may carry no language, so take the first clip that has one
+function getSpokenLanguage(clips: SubtitleClip[]): string {
+  const language = clips.find((clip) => clip.transcript?.language)?.transcript?.language;
+  const configured = config.transcription.language;
+  return language || (configured === "auto" ? "" : configured);
+}
+
+function writeTrack(
+  cues: SubtitleCue[],
+  workDir: string,
+  baseName: string
+): Pick<SidecarSubtitles, "srtPath" | "vttPath"> {
+  const srtPath = path.join(workDir, `${baseName}.srt`);
+  const vttPath = path.join(workDir, `${baseName}.vtt`);
+  fs.writeFileSync(srtPath, formatSrt(cues));
+  fs.writeFileSync(vttPath, formatVtt(cues));
+  return { srtPath, vttPath };
+}
+
+/**
+ * Write SRT and WebVTT files for the finalized video into `workDir`: subtitles.srt/.vtt in
+ * the spoken language, then subtitles.<language>.srt/.vtt for each translation.
+ * Languages none of the clips has anything to caption in are left out.
+ */
+export function writeSidecarSubtitles(clips: SubtitleClip[], workDir: string): SidecarSubtitles[] {
+  const tracks: SidecarSubtitles[] = [];
+
+  const originalCues = buildVideoCues(clips);
+  const spokenLanguage = getSpokenLanguage(clips);
+  if (originalCues.length > 0) {
+    tracks.push({
+      kind: "original",
+      language: spokenLanguage,
+      ...writeTrack(originalCues, workDir, "subtitles"),
+    });
+  }
+
+  const languages = new Set(clips.flatMap((clip) => Object.keys(clip.translations)));
+  for (const language of languages) {
+    // A clip already narrated in the target language needs no translation
+    const cues = buildVideoCues(
+      clips,
+      (clip) =>
+        clip.translations[language] ||
+        (clip.transcript?.language === language ? clip.transcript : null)
+    );
+    if (cues.length > 0 && language !== spokenLanguage) {
+      tracks.push({
+        kind: "translation",
+        language,
+        ...writeTrack(cues, workDir, `subtitles.${language}`),
+      });
+    }
+  }
+
+  return tracks;
+}
+
+async function upload(filePath: string, videoId: string): Promise<string> {
+  const url = await uploadFile(
+    filePath,
+    buildStoragePath("videoArtifact", { videoId, fileName: path.basename(filePath) })
+  );
+  if (!url) {
+    throw temporaryError(`Failed to upload ${path.basename(filePath)}`, undefined, "upload");
+  }
+  return url;
+}
+
+/**
+ * Upload the sidecar subtitle files next to the finalized video
+ */
+export async function uploadSidecarSubtitles(
+  tracks: SidecarSubtitles[],
+  videoId: string
+): Promise<SidecarSubtitleURLs | null> {
+  const subtitleTracks: SubtitleTrackURLs[] = [];
+  for (const track of tracks) {
+    subtitleTracks.push({
+      kind: track.kind,
+      language: track.language,
+      srtURL: await upload(track.srtPath, videoId),
+      vttURL: await upload(track.vttPath, videoId),
+    });
+  }
+
+  const original = subtitleTracks.find((track) => track.kind === "original");
+  if (!original) {
+    return null;
+  }
+  return { srtURL: original.srtURL, vttURL: original.vttURL, subtitleTracks };
+}
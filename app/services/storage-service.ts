@@ -1,43 +1,97 @@
-import fs from 'fs';
-import { supabasePublic } from './supabase';
+import path from 'path';
 import { config } from '../config/config';
+import { StorageProvider } from './storage/storage-provider';
+import { createSupabaseProvider } from './storage/supabase-provider';
+import { createLocalProvider } from './storage/local-provider';
+import { createS3Provider } from './storage/s3-provider';
 
-// Upload a file to Supabase storage
-export async function uploadFile(filePath: string, storageFileName: string, isRootLevel = false): Promise<string | null> {
-  try {
-    // Check if supabasePublic is available
-    if (!supabasePublic) {
-      throw new Error('Supabase client is not initialized');
-    }
-    
-    const fileContent = fs.readFileSync(filePath);
-    
-    // Determine storage path - if path starts with 'finalized-videos/', it should be at root level
-    const storagePath = storageFileName.startsWith('finalized-videos/') 
-      ? storageFileName 
-      : `videos/${storageFileName}`;
-    
-    const { data, error } = await supabasePublic.storage
-      .from(config.supabase.storageBucket)
-      .upload(storagePath, fileContent, {
-        contentType: 'video/mp4',
-        upsert: true
+// Named path templates from config.storage.paths
+export type StoragePathTemplate = keyof typeof config.storage.paths;
+
+// Values substituted into a path template
+export interface StoragePathValues {
+  storyId?: string;
+  segmentId?: string;
+  videoId?: string;
+  fileName?: string;
+  ext?: string;
+}
+
+// Content types for every artifact the pipeline produces
+const CONTENT_TYPES: Record<string, string> = {
+  '.mp4': 'video/mp4',
+  '.m4s': 'video/iso.segment',
+  '.ts': 'video/mp2t',
+  '.m3u8': 'application/vnd.apple.mpegurl',
+  '.srt': 'application/x-subrip',
+  '.vtt': 'text/vtt',
+  '.ass': 'text/x-ssa',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png',
+  '.webp': 'image/webp',
+  '.gif': 'image/gif',
+  '.mp3': 'audio/mpeg',
+  '.json': 'application/json'
+};
+
+let provider: StorageProvider | null = null;
+
+/**
+ * Get the storage backend selected by STORAGE_PROVIDER, creating it on first use
+ */
+export function getStorageProvider(): StorageProvider {
+  if (provider) {
+    return provider;
+  }
+
+  switch (config.storage.provider) {
+    case 'local':
+      provider = createLocalProvider(
+        config.storage.local.root,
+        config.storage.publicBaseUrl ||
+          `http://${config.server.host}:${config.server.port}${config.storage.local.urlPath}`
+      );
+      break;
+    case 's3':
+      provider = createS3Provider({
+        ...config.storage.s3,
+        publicBaseUrl: config.storage.publicBaseUrl
       });
-    
-    if (error) {
-      throw error;
-    }
-    
-    if (!supabasePublic) {
-      throw new Error('Supabase client is not initialized');
+      break;
+    default:
+      provider = createSupabaseProvider(config.supabase.storageBucket);
+  }
+
+  return provider;
+}
+
+/**
+ * Content type for a file based on its extension
+ */
+export function getContentType(filePath: string): string {
+  return CONTENT_TYPES[path.extname(filePath).toLowerCase()] || 'application/octet-stream';
+}
+
+/**
+ * Build an object path from one of the configured templates
+ * e.g. buildStoragePath('segmentVideo', { storyId, segmentId, ext: 'mp4' })
+ */
+export function buildStoragePath(template: StoragePathTemplate, values: StoragePathValues): string {
+  return config.storage.paths[template].replace(/\{(\w+)\}/g, (placeholder, key: string) => {
+    const value = values[key as keyof StoragePathValues];
+    if (value === undefined) {
+      throw new Error(`Missing value for ${placeholder} in storage path template "${template}"`);
     }
-    
-    // Get public URL
-    const { data: publicUrlData } = supabasePublic.storage
-      .from(config.supabase.storageBucket)
-      .getPublicUrl(storagePath);
-    
-    return publicUrlData.publicUrl;
+    return value;
+  });
+}
+
+// Upload a file to the configured storage backend
+export async function uploadFile(filePath: string, storagePath: string): Promise<string | null> {
+  try {
+    const storage = getStorageProvider();
+    return await storage.upload(filePath, storagePath, getContentType(filePath));
   } catch (error) {
     console.error("Error uploading file:", error);
     return null;
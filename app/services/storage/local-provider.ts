@@ -0,0 +1,39 @@
+import fs from 'fs';
+import path from 'path';
+import { pipeline } from 'stream/promises';
+import { StorageProvider } from './storage-provider';
+
+// Stores files on the local filesystem, served by the express app under `publicBaseUrl`
+export function createLocalProvider(rootDir: string, publicBaseUrl: string): StorageProvider {
+  const root = path.resolve(rootDir);
+
+  // Keep storage paths from escaping the root directory
+  function resolvePath(storagePath: string): string {
+    const resolved = path.resolve(root, storagePath);
+    if (resolved !== root && !resolved.startsWith(root + path.sep)) {
+      throw new Error(`Storage path ${storagePath} is outside of ${root}`);
+    }
+    return resolved;
+  }
+
+  return {
+    name: 'local',
+
+    async upload(filePath, storagePath) {
+      const destination = resolvePath(storagePath);
+      fs.mkdirSync(path.dirname(destination), { recursive: true });
+
+      // Write to a temporary file first so readers never see a partial upload
+      const partialPath = `${destination}.partial`;
+      await pipeline(fs.createReadStream(filePath), fs.createWriteStream(partialPath));
+      fs.renameSync(partialPath, destination);
+
+      return this.getPublicUrl(storagePath);
+    },
+
+    getPublicUrl(storagePath) {
+      const encodedPath = storagePath.split('/').map(encodeURIComponent).join('/');
+      return `${publicBaseUrl.replace(/\/+$/, '')}/${encodedPath}`;
+    }
+  };
+}
@@ -0,0 +1,66 @@
+import fs from 'fs';
+import { S3Client } from '@aws-sdk/client-s3';
+import { Upload } from '@aws-sdk/lib-storage';
+import { StorageProvider } from './storage-provider';
+
+// Connection settings for an S3-compatible bucket (AWS S3, MinIO, R2, ...)
+export interface S3ProviderOptions {
+  bucket: string;
+  region: string;
+  endpoint?: string;
+  accessKeyId?: string;
+  secretAccessKey?: string;
+  forcePathStyle: boolean;
+  publicBaseUrl?: string;
+}
+
+// Stores files in an S3-compatible bucket using multipart streaming uploads
+export function createS3Provider(options: S3ProviderOptions): StorageProvider {
+  const client = new S3Client({
+    region: options.region,
+    endpoint: options.endpoint || undefined,
+    forcePathStyle: options.forcePathStyle,
+    credentials:
+      options.accessKeyId && options.secretAccessKey
+        ? { accessKeyId: options.accessKeyId, secretAccessKey: options.secretAccessKey }
+        : undefined
+  });
+
+  // Default to the bucket URL on the configured endpoint (or AWS) when no public base is set
+  function getBaseUrl(): string {
+    if (options.publicBaseUrl) {
+      return options.publicBaseUrl.replace(/\/+$/, '');
+    }
+    if (options.endpoint) {
+      const endpoint = options.endpoint.replace(/\/+$/, '');
+      return options.forcePathStyle
+        ? `${endpoint}/${options.bucket}`
+        : endpoint.replace('://', `://${options.bucket}.`);
+    }
+    return `https://${options.bucket}.s3.${options.region}.amazonaws.com`;
+  }
+
+  return {
+    name: 's3',
+
+    async upload(filePath, storagePath, contentType) {
+      const upload = new Upload({
+        client,
+        params: {
+          Bucket: options.bucket,
+          Key: storagePath,
+          Body: fs.createReadStream(filePath),
+          ContentType: contentType
+        }
+      });
+      await upload.done();
+
+      return this.getPublicUrl(storagePath);
+    },
+
+    getPublicUrl(storagePath) {
+      const encodedPath = storagePath.split('/').map(encodeURIComponent).join('/');
+      return `${getBaseUrl()}/${encodedPath}`;
+    }
+  };
+}
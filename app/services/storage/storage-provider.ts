@@ -0,0 +1,14 @@
+// Contract every storage backend implements
+export interface StorageProvider {
+  // Short name used in logs and the STORAGE_PROVIDER setting
+  readonly name: string;
+
+  /**
+   * Stream a local file to `storagePath`, replacing any existing object
+   * @returns Public URL of the uploaded object
+   */
+  upload(filePath: string, storagePath: string, contentType: string): Promise<string>;
+
+  // Public URL an object at `storagePath` is served from
+  getPublicUrl(storagePath: string): string;
+}
@@ -0,0 +1,39 @@
+import fs from 'fs';
+import { supabasePublic } from '../supabase';
+import { StorageProvider } from './storage-provider';
+
+// Stores files in a Supabase storage bucket
+export function createSupabaseProvider(bucket: string): StorageProvider {
+  function getClient() {
+    if (!supabasePublic) {
+      throw new Error('Supabase client is not initialized');
+    }
+    return supabasePublic;
+  }
+
+  return {
+    name: 'supabase',
+
+    async upload(filePath, storagePath, contentType) {
+      // Stream the file instead of reading it into memory
+      const { error } = await getClient()
+        .storage.from(bucket)
+        .upload(storagePath, fs.createReadStream(filePath), {
+          contentType,
+          upsert: true,
+          duplex: 'half'
+        });
+
+      if (error) {
+        throw error;
+      }
+
+      return this.getPublicUrl(storagePath);
+    },
+
+    getPublicUrl(storagePath) {
+      const { data } = getClient().storage.from(bucket).getPublicUrl(storagePath);
+      return data.publicUrl;
+    }
+  };
+}
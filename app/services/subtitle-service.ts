@@ -0,0 +1,278 @@
+import type { CaptionPosition } from "../config/config";
+import { SubtitleCue, Transcript, TranscriptSegment } from "../types";
+
+// Longest caption line, in characters, before a phrase is split into several cues
+const MAX_LINE_LENGTH = 42;
+
+// Split a phrase into runs of words that each fit on one caption line
+function splitIntoLines(segment: TranscriptSegment, maxLength: number): TranscriptSegment[] {
+  if (segment.words.length === 0) {
+    return [segment];
+  }
+
+  const lines: TranscriptSegment[] = [];
+  let words: TranscriptSegment["words"] = [];
+
+  for (const word of segment.words) {
+    const length = [...words, word].map((w) => w.word).join(" ").length;
+    if (words.length > 0 && length > maxLength) {
+      lines.push(toLine(words));
+      words = [];
+    }
+    words.push(word);
+  }
+  if (words.length > 0) {
+    lines.push(toLine(words));
+  }
+
+  return lines;
+}
+
+function toLine(words: TranscriptSegment["words"]): TranscriptSegment {
+  return {
+    start: words[0].start,
+    end: words[words.length - 1].end,
+    text: words.map((word) => word.word).join(" "),
+    words,
+  };
+}
+
+/**
+ * One cue per caption line, built from the transcript's phrases
+ */
+export function buildCues(
+  transcript: Transcript,
+  maxLineLength = MAX_LINE_LENGTH
+): SubtitleCue[] {
+  return transcript.segments
+    .flatMap((segment) => splitIntoLines(segment, maxLineLength))
+    .filter((line) => line.text.length > 0)
+    .map((line) => ({ start: line.start, end: line.end, text: line.text }));
+}
+
+/**
+ * Cues that underline each word while it is spoken, matching whisper's --highlight_words output.
+ * Gaps between words show the line without a highlight.
+ */
+export function buildHighlightedCues(
+  transcript: Transcript,
+  maxLineLength = MAX_LINE_LENGTH
+): SubtitleCue[] {
+  const cues: SubtitleCue[] = [];
+
+  for (const segment of transcript.segments) {
+    for (const line of splitIntoLines(segment, maxLineLength)) {
+      if (line.words.length === 0) {
+        if (line.text) cues.push({ start: line.start, end: line.end, text: line.text });
+        continue;
+      }
+
+      let last = line.start;
+      line.words.forEach((word, index) => {
+        if (word.start > last) {
+          cues.push({ start: last, end: word.start, text: line.text });
+        }
+        const text = line.words
+          .map((w, i) => (i === index ? `<u>${w.word}</u>` : w.word))
+          .join(" ");
+        cues.push({ start: word.start, end: word.end, text });
+        last = word.end;
+      });
+    }
+  }
+
+  return cues;
+}
+
+// Format seconds as HH:MM:SS<separator>mmm
+function formatTimestamp(seconds: number, separator: string): string {
+  const totalMs = Math.max(0, Math.round(seconds * 1000));
+  const hours = Math.floor(totalMs / 3600000);
+  const minutes = Math.floor((totalMs % 3600000) / 60000);
+  const secs = Math.floor((totalMs % 60000) / 1000);
+  const ms = totalMs % 1000;
+  const pad = (value: number, length = 2) => value.toString().padStart(length, "0");
+  return `${pad(hours)}:${pad(minutes)}:${pad(secs)}${separator}${pad(ms, 3)}`;
+}
+
+/**
+ * Render cues as an SRT document
+ */
+export function formatSrt(cues: SubtitleCue[]): string {
+  return cues
+    .map(
+      (cue, index) =>
+        `${index + 1}\n${formatTimestamp(cue.start, ",")} --> ${formatTimestamp(
+          cue.end,
+          ","
+        )}\n${cue.text}\n`
+    )
+    .join("\n");
+}
+
+/**
+ * Render cues as a WebVTT document
+ */
+export function formatVtt(cues: SubtitleCue[]): string {
+  const body = cues
+    .map(
+      (cue) =>
+        `${formatTimestamp(cue.start, ".")} --> ${formatTimestamp(cue.end, ".")}\n${cue.text}\n`
+    )
+    .join("\n");
+  return `WEBVTT\n\n${body}`;
+}
+
+// ISO 639-2 codes for the languages whisper detects most often, used to tag subtitle tracks
+const ISO_639_2: Record<string, string> = {
+  ar: "ara",
+  de: "ger",
+  en: "eng",
+  es: "spa",
+  fr: "fre",
+  hi: "hin",
+  it: "ita",
+  ja: "jpn",
+  ko: "kor",
+  nl: "dut",
+  pl: "pol",
+  pt: "por",
+  ru: "rus",
+  sv: "swe",
+  tr: "tur",
+  uk: "ukr",
+  zh: "chi",
+};
+
+/**
+ * Three-letter language code for a subtitle track, "und" when it isn't known
+ */
+export function toIso6392(language: string | null | undefined): string {
+  const code = (language || "").trim().toLowerCase();
+  if (/^[a-z]{3}$/.test(code)) {
+    return code;
+  }
+  return ISO_639_2[code] || "und";
+}
+
+// Look and layout of karaoke captions
+export interface KaraokeOptions {
+  width: number;
+  height: number;
+  fontName: string;
+  fontSize: number;
+  bold: boolean;
+  // #RRGGBB colors
+  textColor: string;
+  highlightColor: string;
+  outlineColor: string;
+  outline: number;
+  shadow: number;
+  popScale: number;
+  popDuration: number;
+  maxWordsPerLine: number;
+  position: CaptionPosition;
+  safeAreaX: number;
+  safeAreaY: number;
+}
+
+// ASS numpad alignment for each caption position (always horizontally centered)
+const ASS_ALIGNMENT: Record<CaptionPosition, number> = {
+  bottom: 2,
+  middle: 5,
+  top: 8,
+};
+
+/**
+ * Convert #RRGGBB to ASS's &HAABBGGRR notation
+ * @param alpha 0 is opaque, 255 fully transparent
+ */
+export function toAssColor(hex: string, alpha = 0): string {
+  const rgb = hex.replace(/^#/, "").padStart(6, "0").slice(0, 6).toUpperCase();
+  const channel = (offset: number) => rgb.slice(offset, offset + 2);
+  const a = Math.min(255, Math.max(0, alpha)).toString(16).padStart(2, "0").toUpperCase();
+  return `&H${a}${channel(4)}${channel(2)}${channel(0)}`;
+}
+
+// Format seconds as H:MM:SS.cc, the centisecond timestamps ASS uses
+function formatAssTimestamp(seconds: number): string {
+  const totalCs = Math.max(0, Math.round(seconds * 100));
+  const hours = Math.floor(totalCs / 360000);
+  const minutes = Math.floor((totalCs % 360000) / 6000);
+  const secs = Math.floor((totalCs % 6000) / 100);
+  const cs = totalCs % 100;
+  const pad = (value: number) => value.toString().padStart(2, "0");
+  return `${hours}:${pad(minutes)}:${pad(secs)}.${pad(cs)}`;
+}
+
+// Braces and backslashes start override tags in ASS, so keep them out of caption text
+function escapeAssText(text: string): string {
+  return text.replace(/[{}]/g, "").replace(/\\/g, "/");
+}
+
+/**
+ * Render an ASS subtitle file that shows a few words at a time and highlights
+ * each word while it is spoken, popping it up in size before it settles back
+ */
+export function formatKaraokeAss(transcript: Transcript, options: KaraokeOptions): string {
+  const marginX = Math.round(options.width * options.safeAreaX);
+  const marginY = Math.round(options.height * options.safeAreaY);
+  const maxWords = Math.max(1, Math.floor(options.maxWordsPerLine));
+  const highlight = toAssColor(options.highlightColor);
+
+  // Grow to popScale over the first half of the pop, then settle back to normal size
+  const half = Math.round(options.popDuration / 2);
+  const pop =
+    options.popScale !== 100
+      ? `\\t(0,${half},\\fscx${options.popScale}\\fscy${options.popScale})\\t(${half},${options.popDuration},\\fscx100\\fscy100)`
+      : "";
+
+  const events: string[] = [];
+  for (const segment of transcript.segments) {
+    for (let i = 0; i < segment.words.length; i += maxWords) {
+      const words = segment.words.slice(i, i + maxWords);
+
+      words.forEach((word, index) => {
+        // Keep the line on screen until the next word starts, so it doesn't flicker between words
+        const end = index < words.length - 1 ? words[index + 1].start : word.end;
+        const text = words
+          .map((w, j) =>
+            j === index
+              ? `{\\c${highlight}${pop}}${escapeAssText(w.word)}{\\r}`
+              : escapeAssText(w.word)
+          )
+          .join(" ");
+        events.push(
+          `Dialogue: 0,${formatAssTimestamp(word.start)},${formatAssTimestamp(
+            Math.max(end, word.start)
+          )},Karaoke,,0,0,0,,${text}`
+        );
+      });
+    }
+  }
+
+  return [
+    "[Script Info]",
+    "ScriptType: v4.00+",
+    `PlayResX: ${options.width}`,
+    `PlayResY: ${options.height}`,
+    "WrapStyle: 0",
+    "ScaledBorderAndShadow: yes",
+    "",
+    "[V4+ Styles]",
+    "Format: Name, Fontname, Fontsize, PrimaryColour, SecondaryColour, OutlineColour, BackColour, Bold, Italic, Underline, StrikeOut, ScaleX, ScaleY, Spacing, Angle, BorderStyle, Outline, Shadow, Alignment, MarginL, MarginR, MarginV, Encoding",
+    `Style: Karaoke,${options.fontName},${options.fontSize},${toAssColor(
+      options.textColor
+    )},${highlight},${toAssColor(options.outlineColor)},${toAssColor(
+      "#000000",
+      128
+    )},${options.bold ? -1 : 0},0,0,0,100,100,0,0,1,${options.outline},${options.shadow},${
+      ASS_ALIGNMENT[options.position]
+    },${marginX},${marginX},${marginY},1`,
+    "",
+    "[Events]",
+    "Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text",
+    ...events,
+    "",
+  ].join("\n");
+}
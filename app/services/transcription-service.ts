@@ -1,77 +1,162 @@
-import { spawn } from "child_process";
 import path from "path";
 import fs from "fs";
-import { config } from "../config/config";
+import crypto from "crypto";
+import {
+  config,
+  TRANSCRIPTION_PROVIDERS,
+  TranscriptionProviderName,
+} from "../config/config";
+import { Transcript } from "../types";
+import {
+  TranscriptionOptions,
+  TranscriptionProvider,
+  TranscriptionTask,
+} from "./transcription/transcription-provider";
+import { createWhisperCliProvider } from "./transcription/whisper-cli-provider";
+import { createWhisperCppProvider } from "./transcription/whisper-cpp-provider";
+import { createFasterWhisperProvider } from "./transcription/faster-whisper-provider";
+import { getCachedJson, hashFile, hashKey, putCachedJson } from "./cache-service";
 
-export async function transcribeAudio(audioPath: string): Promise<string> {
-  return new Promise((resolve, reject) => {
-    try {
-      // Create a temp directory for transcription output
-      const outputDir = path.join(config.paths.tempDir, "transcriptions");
-      fs.mkdirSync(outputDir, { recursive: true });
+// Engine and options for a transcription, resolved from config and per-job overrides
+export interface TranscriptionSettings extends Omit<TranscriptionOptions, "task"> {
+  provider: TranscriptionProviderName;
+}
 
-      // Get the base name of the audio file without extension
-      const baseName = path.basename(audioPath).split(".")[0];
-      const outputPath = path.join(outputDir, `${baseName}.srt`);
+// Per-job overrides accepted in the `transcription` field of a queue message
+export type TranscriptionOverrides = Partial<TranscriptionSettings>;
 
-      // Run Whisper command
-      const whisper = spawn("whisper", [
-        audioPath,
-        "--model",
-        "base", // Use base model for faster processing
-        "--language",
-        "en", // Specify English language
-        "--word_timestamps",
-        "True", // Enable word-level timestamps
-        "--highlight_words",
-        "True", // Enable word highlighting
-        "--output_format",
-        "srt", // Get SRT format with timestamps
-        "--output_dir",
-        outputDir,
-      ]);
+const providers = new Map<TranscriptionProviderName, TranscriptionProvider>();
 
-      let output = "";
-      let error = "";
+/**
+ * Get a transcription engine by name, creating it on first use
+ */
+export function getTranscriptionProvider(
+  name: TranscriptionProviderName
+): TranscriptionProvider {
+  let provider = providers.get(name);
+  if (provider) {
+    return provider;
+  }
 
-      whisper.stdout.on("data", (data) => {
-        output += data.toString();
-      });
+  switch (name) {
+    case "whisper-cpp":
+      provider = createWhisperCppProvider(
+        config.transcription.whisperCpp.path,
+        config.transcription.whisperCpp.modelDir
+      );
+      break;
+    case "faster-whisper":
+      provider = createFasterWhisperProvider(
+        config.transcription.fasterWhisper.path,
+        config.transcription.fasterWhisper.computeType
+      );
+      break;
+    default:
+      provider = createWhisperCliProvider(config.transcription.whisperPath);
+  }
 
-      whisper.stderr.on("data", (data) => {
-        error += data.toString();
-      });
+  providers.set(name, provider);
+  return provider;
+}
 
-      whisper.on("close", (code) => {
-        try {
-          if (code === 0 && fs.existsSync(outputPath)) {
-            // Resolve with the transcribed text
-            const transcription = fs.readFileSync(outputPath, "utf-8").trim();
-            resolve(transcription);
+/**
+ * Check the `transcription` field of a queue message
+ */
+export function isValidTranscriptionOverrides(
+  value: unknown
+): value is TranscriptionOverrides | undefined {
+  if (value === undefined || value === null) {
+    return true;
+  }
+  if (typeof value !== "object") {
+    return false;
+  }
 
-            // Clean up the transcription file
-            fs.unlinkSync(outputPath);
-          } else {
-            reject(
-              new Error(
-                `Whisper transcription failed with code ${code}: ${error}`
-              )
-            );
-          }
-        } catch (err: any) {
-          reject(
-            new Error(`Failed to read transcription: ${err?.message || err}`)
-          );
-        }
-      });
+  const { provider, model, language, device } = value as Record<string, unknown>;
+  if (
+    provider !== undefined &&
+    !TRANSCRIPTION_PROVIDERS.includes(provider as TranscriptionProviderName)
+  ) {
+    return false;
+  }
+  return [model, language, device].every(
+    (field) => field === undefined || typeof field === "string"
+  );
+}
 
-      whisper.on("error", (err: Error) => {
-        reject(new Error(`Failed to start Whisper: ${err.message}`));
-      });
-    } catch (err: any) {
-      reject(
-        new Error(`Failed to initialize transcription: ${err?.message || err}`)
-      );
+/**
+ * Merge per-job overrides over the configured defaults
+ */
+export function resolveTranscriptionSettings(
+  overrides: TranscriptionOverrides = {}
+): TranscriptionSettings {
+  return {
+    provider: overrides.provider || config.transcription.provider,
+    model: overrides.model || config.transcription.model,
+    language: overrides.language || config.transcription.language,
+    device: overrides.device ?? config.transcription.device,
+  };
+}
+
+/**
+ * Transcribe an audio file into words with timings
+ * @param overrides Per-job engine, model, language or device
+ * @param task translate turns the speech into English words instead
+ */
+export async function transcribeAudio(
+  audioPath: string,
+  overrides?: TranscriptionOverrides,
+  task: TranscriptionTask = "transcribe"
+): Promise<Transcript> {
+  const { provider: providerName, ...options } = resolveTranscriptionSettings(overrides);
+  const provider = getTranscriptionProvider(providerName);
+
+  // The same audio through the same engine and model always gives the same words
+  const cacheKey = config.cache.enabled
+    ? hashKey({
+        audio: await hashFile(audioPath),
+        provider: providerName,
+        model: options.model,
+        language: options.language,
+        task,
+      })
+    : "";
+  const cached = cacheKey ? getCachedJson<Transcript>("transcript", cacheKey) : null;
+  if (cached) {
+    console.log(`Using cached ${task === "translate" ? "translation" : "transcript"} of ${audioPath}`);
+    return cached;
+  }
+
+  // Each run gets its own output directory so concurrent segments never collide
+  const workDir = path.join(
+    config.paths.tempDir,
+    "transcriptions",
+    `${Date.now()}_${crypto.randomBytes(4).toString("hex")}`
+  );
+  fs.mkdirSync(workDir, { recursive: true });
+
+  try {
+    const verb = task === "translate" ? "Translating" : "Transcribing";
+    console.log(
+      `${verb} ${audioPath} with ${provider.name} (model ${options.model}, language ${options.language})`
+    );
+    const transcript = await provider.transcribe(audioPath, workDir, { ...options, task });
+    console.log(
+      `${task === "translate" ? "Translated" : "Transcribed"} ${transcript.words.length} words in ${transcript.segments.length} phrases`
+    );
+    // Engines report the spoken language, but a translation is always English
+    const result = task === "translate" ? { ...transcript, language: "en" } : transcript;
+    if (cacheKey) {
+      await putCachedJson("transcript", cacheKey, result);
     }
-  });
+    return result;
+  } catch (err: any) {
+    throw new Error(
+      `${provider.name} ${task === "translate" ? "translation" : "transcription"} failed: ${
+        err?.message || err
+      }`
+    );
+  } finally {
+    fs.rmSync(workDir, { recursive: true, force: true });
+  }
 }
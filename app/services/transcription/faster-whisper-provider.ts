@@ -0,0 +1,31 @@
+import { runProcess } from "../../utils/process";
+import { TranscriptionProvider } from "./transcription-provider";
+import { buildWhisperArgs, readWhisperOutput } from "./whisper-cli-provider";
+import { parseWhisperJson } from "./whisper-json";
+
+/**
+ * Transcribes with faster-whisper through the whisper-ctranslate2 CLI,
+ * which accepts the openai-whisper arguments and writes the same JSON
+ */
+export function createFasterWhisperProvider(
+  binaryPath: string,
+  computeType: string
+): TranscriptionProvider {
+  return {
+    name: "faster-whisper",
+
+    async transcribe(audioPath, workDir, options) {
+      await runProcess(binaryPath, [
+        ...buildWhisperArgs(audioPath, workDir, options),
+        "--compute_type",
+        computeType,
+      ]);
+
+      return parseWhisperJson(readWhisperOutput(audioPath, workDir), {
+        provider: this.name,
+        model: options.model,
+        language: options.language,
+      });
+    },
+  };
+}
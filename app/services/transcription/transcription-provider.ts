@@ -0,0 +1,31 @@
+import type { TranscriptionProviderName } from "../../config/config";
+import { Transcript } from "../../types";
+
+// Engine settings for a single transcription
+export interface TranscriptionOptions {
+  model: string;
+  // ISO 639-1 code, or "auto" to let the engine detect it
+  language: string;
+  // e.g. cpu or cuda; empty lets the engine decide
+  device: string;
+  // translate produces English text from speech in any language
+  task?: TranscriptionTask;
+}
+
+export type TranscriptionTask = "transcribe" | "translate";
+
+// Contract every transcription engine implements
+export interface TranscriptionProvider {
+  // Short name used in logs and the TRANSCRIPTION_PROVIDER setting
+  readonly name: TranscriptionProviderName;
+
+  /**
+   * Transcribe an audio file with word-level timings
+   * @param workDir Scratch directory for the engine's output files, removed afterwards
+   */
+  transcribe(
+    audioPath: string,
+    workDir: string,
+    options: TranscriptionOptions
+  ): Promise<Transcript>;
+}
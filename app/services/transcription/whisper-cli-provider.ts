@@ -0,0 +1,62 @@
+import fs from "fs";
+import path from "path";
+import { runProcess } from "../../utils/process";
+import { TranscriptionOptions, TranscriptionProvider } from "./transcription-provider";
+import { parseWhisperJson } from "./whisper-json";
+
+// Arguments shared by the openai-whisper CLI and whisper-ctranslate2, which mirrors it
+export function buildWhisperArgs(
+  audioPath: string,
+  workDir: string,
+  options: TranscriptionOptions
+): string[] {
+  const args = [
+    audioPath,
+    "--model",
+    options.model,
+    "--word_timestamps",
+    "True",
+    "--output_format",
+    "json",
+    "--output_dir",
+    workDir,
+  ];
+
+  if (options.language && options.language !== "auto") {
+    args.push("--language", options.language);
+  }
+  if (options.device) {
+    args.push("--device", options.device);
+  }
+  if (options.task === "translate") {
+    args.push("--task", "translate");
+  }
+
+  return args;
+}
+
+// Read the JSON file whisper writes next to the audio's base name
+export function readWhisperOutput(audioPath: string, workDir: string): any {
+  const outputPath = path.join(workDir, `${path.parse(audioPath).name}.json`);
+  if (!fs.existsSync(outputPath)) {
+    throw new Error(`Whisper did not produce ${outputPath}`);
+  }
+  return JSON.parse(fs.readFileSync(outputPath, "utf-8"));
+}
+
+// Transcribes with the Python openai-whisper CLI
+export function createWhisperCliProvider(binaryPath: string): TranscriptionProvider {
+  return {
+    name: "whisper",
+
+    async transcribe(audioPath, workDir, options) {
+      await runProcess(binaryPath, buildWhisperArgs(audioPath, workDir, options));
+
+      return parseWhisperJson(readWhisperOutput(audioPath, workDir), {
+        provider: this.name,
+        model: options.model,
+        language: options.language,
+      });
+    },
+  };
+}
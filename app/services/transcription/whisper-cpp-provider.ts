@@ -0,0 +1,148 @@
+import fs from "fs";
+import path from "path";
+import { runProcess } from "../../utils/process";
+import { convertAudioToWav } from "../ffmpeg-service";
+import { TranscriptionProvider } from "./transcription-provider";
+import { TranscriptSegment, TranscriptWord } from "../../types";
+
+// Shape of the JSON written by whisper.cpp with --output-json-full
+interface WhisperCppToken {
+  text: string;
+  offsets: { from: number; to: number }; // milliseconds
+  p?: number;
+}
+
+interface WhisperCppOutput {
+  result?: { language?: string };
+  transcription?: {
+    offsets: { from: number; to: number };
+    text: string;
+    tokens?: WhisperCppToken[];
+  }[];
+}
+
+// Special tokens such as [_BEG_], [_TT_150] or <|endoftext|> carry no text
+function isSpecialToken(text: string): boolean {
+  return /^\[_.*\]$/.test(text) || /^<\|.*\|>$/.test(text);
+}
+
+/**
+ * whisper.cpp reports sub-word tokens; a token starting with a space begins a new word.
+ * Token times are merged into word times and probabilities averaged.
+ */
+function tokensToWords(tokens: WhisperCppToken[]): TranscriptWord[] {
+  const words: TranscriptWord[] = [];
+  let current: { text: string; start: number; end: number; probabilities: number[] } | null =
+    null;
+
+  const flush = () => {
+    if (current && current.text.trim()) {
+      words.push({
+        word: current.text.trim(),
+        start: current.start / 1000,
+        end: current.end / 1000,
+        probability: current.probabilities.length
+          ? current.probabilities.reduce((sum, p) => sum + p, 0) /
+            current.probabilities.length
+          : undefined,
+      });
+    }
+    current = null;
+  };
+
+  for (const token of tokens) {
+    if (isSpecialToken(token.text.trim())) continue;
+
+    if (!current || token.text.startsWith(" ")) {
+      flush();
+      current = {
+        text: token.text,
+        start: token.offsets.from,
+        end: token.offsets.to,
+        probabilities: [],
+      };
+    } else {
+      current.text += token.text;
+      current.end = token.offsets.to;
+    }
+
+    if (typeof token.p === "number") {
+      current!.probabilities.push(token.p);
+    }
+  }
+  flush();
+
+  return words;
+}
+
+// Transcribes with a whisper.cpp build (whisper-cli, or `main` in older releases)
+export function createWhisperCppProvider(
+  binaryPath: string,
+  modelDir: string
+): TranscriptionProvider {
+  // Model names map to ggml-<model>.bin in the model directory; paths are used as-is
+  function resolveModelPath(model: string): string {
+    if (model.endsWith(".bin") || model.includes(path.sep)) {
+      return path.resolve(model);
+    }
+    return path.join(modelDir, `ggml-${model}.bin`);
+  }
+
+  return {
+    name: "whisper-cpp",
+
+    async transcribe(audioPath, workDir, options) {
+      const modelPath = resolveModelPath(options.model);
+      if (!fs.existsSync(modelPath)) {
+        throw new Error(`whisper.cpp model not found at ${modelPath}`);
+      }
+
+      // whisper.cpp only reads 16kHz WAV
+      const wavPath = path.join(workDir, "audio.wav");
+      await convertAudioToWav(audioPath, wavPath);
+
+      const outputBase = path.join(workDir, "transcript");
+      const args = [
+        "-m",
+        modelPath,
+        "-f",
+        wavPath,
+        "-l",
+        options.language || "auto",
+        "-ojf",
+        "-of",
+        outputBase,
+      ];
+      if (options.device === "cpu") {
+        args.push("-ng");
+      }
+      if (options.task === "translate") {
+        args.push("-tr");
+      }
+
+      await runProcess(binaryPath, args);
+
+      const outputPath = `${outputBase}.json`;
+      if (!fs.existsSync(outputPath)) {
+        throw new Error(`whisper.cpp did not produce ${outputPath}`);
+      }
+      const output: WhisperCppOutput = JSON.parse(fs.readFileSync(outputPath, "utf-8"));
+
+      const segments: TranscriptSegment[] = (output.transcription || []).map((entry) => ({
+        start: entry.offsets.from / 1000,
+        end: entry.offsets.to / 1000,
+        text: entry.text.trim(),
+        words: tokensToWords(entry.tokens || []),
+      }));
+
+      return {
+        provider: this.name,
+        model: options.model,
+        language: output.result?.language || options.language,
+        text: segments.map((segment) => segment.text).join(" ").trim(),
+        segments,
+        words: segments.flatMap((segment) => segment.words),
+      };
+    },
+  };
+}
@@ -0,0 +1,44 @@
+import { Transcript, TranscriptSegment } from "../../types";
+
+// Shape of the JSON written by `--output_format json` of openai-whisper and whisper-ctranslate2
+interface WhisperJsonOutput {
+  text?: string;
+  language?: string;
+  segments?: {
+    start: number;
+    end: number;
+    text: string;
+    words?: { word: string; start: number; end: number; probability?: number }[];
+  }[];
+}
+
+/**
+ * Convert whisper's JSON output into a Transcript.
+ * Words carry a leading space in whisper's output, which is trimmed here.
+ */
+export function parseWhisperJson(
+  json: WhisperJsonOutput,
+  meta: Pick<Transcript, "provider" | "model" | "language">
+): Transcript {
+  const segments: TranscriptSegment[] = (json.segments || []).map((segment) => ({
+    start: segment.start,
+    end: segment.end,
+    text: segment.text.trim(),
+    words: (segment.words || [])
+      .map((word) => ({
+        word: word.word.trim(),
+        start: word.start,
+        end: word.end,
+        probability: word.probability,
+      }))
+      .filter((word) => word.word.length > 0),
+  }));
+
+  return {
+    ...meta,
+    language: json.language || meta.language,
+    text: (json.text || segments.map((segment) => segment.text).join(" ")).trim(),
+    segments,
+    words: segments.flatMap((segment) => segment.words),
+  };
+}
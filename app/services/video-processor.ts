@@ -2,10 +2,68 @@ import fs from "fs";
 import path from "path";
 import { supabasePublic } from "./supabase";
 import { config } from "../config/config";
-import { processSegment } from "./segment-processor";
+import {
+  ProcessSegmentOptions,
+  computeSegmentRenderHash,
+  fetchStorySettings,
+  getCaptionLanguage,
+  isValidUrl,
+  processSegment,
+  updateSegmentVideo,
+} from "./segment-processor";
 import { cleanupTempFiles, cleanupVideoFiles } from "./cleanup-service";
-import { downloadFile, mergeVideosWithTransition } from "./ffmpeg-service";
-import { uploadFile } from "./storage-service";
+import {
+  applyWatermark,
+  downloadFile,
+  mergeVideosWithTransition,
+  mixBackgroundMusic,
+  muxSubtitleTracks,
+  normalizeClip,
+} from "./ffmpeg-service";
+import { resolveMusicBed } from "./music-service";
+import { resolveBranding } from "./branding-service";
+import { packageHls } from "./hls-service";
+import { generatePreviews } from "./preview-service";
+import {
+  SidecarSubtitles,
+  SubtitleClip,
+  SubtitleTrackURLs,
+  uploadSidecarSubtitles,
+  writeSidecarSubtitles,
+} from "./sidecar-subtitle-service";
+import { toIso6392 } from "./subtitle-service";
+import { buildStoragePath, uploadFile } from "./storage-service";
+import { getCaptionProfile } from "./caption-profile-service";
+import { getRenderPreset } from "./render-preset-service";
+import { TranscriptionOverrides } from "./transcription-service";
+import { hashKey } from "./cache-service";
+import { isShuttingDown } from "./shutdown-service";
+import {
+  CheckpointMessage,
+  CheckpointTracker,
+  MergedCheckpoint,
+  VideoCheckpointStage,
+  loadVideoCheckpoint,
+  startVideoCheckpoint,
+} from "./checkpoint-service";
+import { mapWithConcurrency } from "../utils/concurrency";
+import { dispatchWebhook } from "./webhook-service";
+import {
+  Job,
+  completeJob,
+  createJob,
+  failJob,
+  setJobProgress,
+  setJobState,
+  setJobStory,
+} from "./job-service";
+import { ErrorType, Transcript, TranscriptTranslations } from "../types";
+import {
+  ProcessingError,
+  permanentError,
+  temporaryError,
+  withStage,
+} from "../utils/errors";
 
 /**
  * Helper function to get formatted timestamp for logs
@@ -62,17 +120,21 @@ function logError(message: string, error?: any): void {
  * @param status The status to set (pending, processing, completed, failed)
  * @param videoURL Optional video URL to update
  */
-async function updateVideoStatus(
+export async function updateVideoStatus(
   videoId: string,
   status: "pending" | "completed" | "failed",
-  videoURL?: string
+  videoURL?: string,
+  artifacts: VideoArtifacts = {}
 ): Promise<void> {
   try {
     if (!supabasePublic) {
       throw new Error("Supabase client is not initialized");
     }
 
-    const updateData: { status: string; videoURL?: string } = { status };
+    const updateData: { status: string; videoURL?: string } & VideoArtifacts = {
+      status,
+      ...artifacts,
+    };
 
     if (videoURL) {
       updateData.videoURL = videoURL;
@@ -97,47 +159,196 @@ async function updateVideoStatus(
   }
 }
 
+/**
+ * Check whether a segment's stored video can be reused for this render
+ * @param segment Segment row including its stored videoURL and render fingerprint
+ * @param segmentOptions Per-job render settings the fingerprint is computed with
+ * @returns True if the inputs are unchanged and the video is still reachable
+ */
+async function isSegmentVideoReusable(
+  segment: {
+    id: string;
+    imageURL?: string | null;
+    audioURL?: string | null;
+    text?: string | null;
+    storyId?: string | null;
+    sortedIndex?: number | null;
+    motion?: string | null;
+    videoURL?: string | null;
+    renderHash?: string | null;
+  },
+  segmentOptions: ProcessSegmentOptions
+): Promise<boolean> {
+  if (!segment.videoURL || !isValidUrl(segment.videoURL)) {
+    return false;
+  }
+
+  if (segment.renderHash !== computeSegmentRenderHash(segment, segmentOptions)) {
+    return false;
+  }
+
+  // Make sure the stored video hasn't been removed from storage
+  try {
+    const response = await fetch(segment.videoURL, { method: "HEAD" });
+    return response.ok;
+  } catch (error) {
+    logWarning(`Could not verify existing video for segment ${segment.id}`);
+    return false;
+  }
+}
+
+// A segment's place in the merge and its subtitle words
+interface ProcessedSegment {
+  id: string;
+  videoURL: string;
+  sortedIndex: number;
+  transcript: Transcript | null;
+  translations: TranscriptTranslations;
+}
+
+/**
+ * Place each merged segment's subtitles where the segment starts in the merged timeline
+ */
+function toSubtitleClips(
+  merged: Omit<MergedCheckpoint, "videoURL">,
+  segments: ProcessedSegment[]
+): SubtitleClip[] {
+  const firstSegmentIndex = merged.hasIntro ? 1 : 0;
+  return merged.segmentIds.flatMap((segmentId, index) => {
+    const segment = segments.find((candidate) => candidate.id === segmentId);
+    if (!segment) {
+      return [];
+    }
+    return [
+      {
+        transcript: segment.transcript,
+        translations: segment.translations,
+        start: merged.offsets[firstSegmentIndex + index],
+        end: merged.offsets[firstSegmentIndex + index + 1] ?? merged.duration,
+      },
+    ];
+  });
+}
+
+// Extra deliverables recorded on the Video row next to the MP4
+export interface VideoArtifacts {
+  // HLS master playlist
+  hlsURL?: string;
+  // Poster image, animated preview and the WebVTT index of the thumbnail sprites
+  posterURL?: string;
+  previewURL?: string;
+  thumbnailsURL?: string;
+  // Subtitles for the whole video in the spoken language, and every language available
+  srtURL?: string;
+  vttURL?: string;
+  subtitleTracks?: SubtitleTrackURLs[];
+}
+
+// Result of a successful video run
+export interface VideoRenderResult extends VideoArtifacts {
+  videoURL: string;
+  storyId: string;
+  duration: number;
+}
+
+// Options controlling how processVideo reports failures
+export interface ProcessVideoOptions {
+  // When false, temporary failures leave the video pending so a retry can pick it up
+  isFinalAttempt?: boolean;
+  // Job record that receives state and progress updates
+  job?: Job;
+  // Per-job transcription settings applied to every segment rendered for this video
+  transcription?: TranscriptionOverrides;
+  // Caption profile overriding the one picked on the Video or Story row
+  captionProfile?: string;
+  // Render preset overriding the one picked on the Video row
+  renderPreset?: string;
+  // Burned-in subtitle language overriding the one picked on the Video row
+  captionLanguage?: string;
+  // Queue message the job came from, saved with the checkpoint so an interrupted job can be re-queued
+  message?: CheckpointMessage;
+}
+
 /**
  * Process a video by processing all segments within the story
  * @param videoId The ID of the video to process
- * @returns The URL of the processed video or null if processing failed
+ * @param options Retry context from the queue handler
+ * @returns The URL, story and duration of the processed video
+ * @throws ProcessingError describing whether the failure is worth retrying
  */
-export async function processVideo(videoId: string): Promise<string | null> {
+export async function processVideo(
+  videoId: string,
+  options: ProcessVideoOptions = {}
+): Promise<VideoRenderResult> {
+  const { isFinalAttempt = true, job } = options;
+  const segmentOptions: ProcessSegmentOptions = {
+    transcription: options.transcription,
+  };
+  let activeCheckpoint: CheckpointTracker | undefined;
+
   try {
     logSectionHeader(`PROCESSING VIDEO ${videoId}`);
 
     // Check if supabasePublic is available
     if (!supabasePublic) {
-      throw new Error("Supabase client is not initialized");
+      throw temporaryError("Supabase client is not initialized");
     }
 
     // 1. Get video data from database
     logInfo(`Fetching video data for ${videoId}`);
     const { data: video, error: videoError } = await supabasePublic
       .from("Video")
-      .select("storyId, status")
+      .select(
+        "storyId, status, captionProfile, captionLanguage, renderPreset, musicTrack, musicGain, branding"
+      )
       .eq("id", videoId)
       .single();
 
     if (videoError || !video) {
-      logError(
+      // A missing row (PGRST116 from .single()) won't appear on retry
+      const isMissing = !videoError || videoError.code === "PGRST116";
+      const createError = isMissing ? permanentError : temporaryError;
+      throw createError(
         `Failed to fetch video ${videoId}: ${
           videoError?.message || "Video not found"
-        }`
+        }`,
+        videoError,
+        "validate"
       );
-      // Ensure status is updated to failed if we can't even fetch the video
-      await updateVideoStatus(videoId, "failed");
-      // Early return so worker can move on to the next item
-      return null;
     }
 
     if (!video.storyId) {
-      logError(`Video ${videoId} is not associated with a story`);
-      await updateVideoStatus(videoId, "failed");
-      // Early return so worker can move on to the next item
-      return null;
+      throw permanentError(
+        `Video ${videoId} is not associated with a story`,
+        undefined,
+        "validate"
+      );
     }
 
+    setJobStory(job, video.storyId);
+
+    // Every segment of the video is captioned with the same profile and languages
+    const story = await fetchStorySettings(video.storyId);
+    segmentOptions.captionProfile =
+      options.captionProfile ||
+      video.captionProfile ||
+      story.captionProfile ||
+      config.captions.profile;
+    segmentOptions.transcription = {
+      ...options.transcription,
+      language:
+        options.transcription?.language || story.language || config.transcription.language,
+    };
+    segmentOptions.captionLanguage = getCaptionLanguage(
+      options.captionLanguage || video.captionLanguage
+    );
+    // Segments and the merge share one frame size and encoder setup
+    segmentOptions.renderPreset =
+      options.renderPreset || video.renderPreset || config.render.preset;
+    // Fail before rendering anything if the profile or preset doesn't exist
+    getCaptionProfile(segmentOptions.captionProfile);
+    const renderPreset = getRenderPreset(segmentOptions.renderPreset);
+
     // 2. Update video status to processing
     logInfo(`Updating video ${videoId} status to pending`);
     await updateVideoStatus(videoId, "pending");
@@ -146,19 +357,21 @@ export async function processVideo(videoId: string): Promise<string | null> {
     logInfo(`Fetching segments for story ${video.storyId}`);
     const { data: segments, error: segmentsError } = await supabasePublic
       .from("Segment")
-      .select("id, sortedIndex")
+      .select(
+        "id, storyId, sortedIndex, imageURL, audioURL, text, motion, videoURL, renderHash, transcript, translations"
+      )
       .eq("storyId", video.storyId)
       .order("sortedIndex", { ascending: true });
 
     if (segmentsError || !segments || segments.length === 0) {
-      logError(
+      const createError = segmentsError ? temporaryError : permanentError;
+      throw createError(
         `Failed to fetch segments for story ${video.storyId}: ${
           segmentsError?.message || "No segments found"
-        }`
+        }`,
+        segmentsError,
+        "validate"
       );
-      await updateVideoStatus(videoId, "failed");
-      // Early return so worker can move on to the next item
-      return null;
     }
 
     logInfo(
@@ -166,8 +379,29 @@ export async function processVideo(videoId: string): Promise<string | null> {
     );
     // Keeping status as pending while processing
 
-    // 4. Process each segment
-    const processedSegments = [];
+    // Pick up where an interrupted run stopped, as long as nothing that goes into the video changed
+    const settingsHash = hashKey({
+      segments: segments.map((segment) => [
+        segment.id,
+        computeSegmentRenderHash(segment, segmentOptions),
+      ]),
+      segmentOptions,
+      musicTrack: video.musicTrack,
+      musicGain: video.musicGain,
+      branding: video.branding,
+      transitions: config.transitions,
+      subtitleDelivery: config.subtitles.delivery,
+    });
+    const checkpoint = startVideoCheckpoint(
+      videoId,
+      settingsHash,
+      await loadVideoCheckpoint(videoId),
+      options.message
+    );
+    activeCheckpoint = checkpoint;
+
+    // 4. Process each segment, reusing existing segment videos whose inputs haven't changed
+    const processedSegments: ProcessedSegment[] = [];
     const tempDirectories = [];
 
     // Create a dedicated temp directory for this video
@@ -179,51 +413,134 @@ export async function processVideo(videoId: string): Promise<string | null> {
     fs.mkdirSync(videoTempDir, { recursive: true });
     tempDirectories.push(videoTempDir);
 
-    // Track any failures during segment processing
-    let hasFailedSegments = false;
+    const staleSegments: typeof segments = [];
+    for (const segment of segments) {
+      // Segments this job already uploaded don't need checking against storage again
+      const checkpointed =
+        checkpoint.checkpoint.segments[segment.id] === segment.videoURL &&
+        segment.renderHash === computeSegmentRenderHash(segment, segmentOptions);
+      if (checkpointed || (await isSegmentVideoReusable(segment, segmentOptions))) {
+        logInfo(
+          `Reusing existing video for segment ${segment.id} (index: ${segment.sortedIndex})`
+        );
+        processedSegments.push({
+          id: segment.id,
+          videoURL: segment.videoURL,
+          sortedIndex: segment.sortedIndex,
+          transcript: segment.transcript || null,
+          translations: segment.translations || {},
+        });
+      } else {
+        staleSegments.push(segment);
+      }
+    }
+
+    logInfo(
+      `${processedSegments.length} segments reused, ${staleSegments.length} to render (concurrency ${config.processing.segmentRenderConcurrency})`
+    );
+
+    setJobState(job, "rendering");
+    let renderedCount = 0;
 
     try {
-      for (const segment of segments) {
-        try {
+      // Render stale or missing segments with bounded parallelism
+      const results = await mapWithConcurrency(
+        staleSegments,
+        config.processing.segmentRenderConcurrency,
+        async (segment) => {
           logSectionHeader(
             `PROCESSING SEGMENT ${segment.id} (index: ${segment.sortedIndex})`
           );
-          // Create a dedicated temp directory for each segment inside the temp/processing dir
-          const segmentTempDir = path.join(
-            config.paths.tempDir,
-            config.paths.processingDir,
-            segment.id
-          );
-          fs.mkdirSync(segmentTempDir, { recursive: true });
-          tempDirectories.push(segmentTempDir);
-
-          const videoURL = await processSegment(segment.id);
+          // processSegment renders in its own temp directory and removes it when done
+          // Each segment render gets its own job, linked to this video's job
+          const segmentJob = createJob("segment", segment.id, {
+            storyId: video.storyId,
+            parentId: job?.id,
+          });
+
+          try {
+            const result = await processSegment(
+              segment.id,
+              segmentJob,
+              segmentOptions
+            );
+
+            // Store the new video on the segment so the next run can reuse it
+            await updateSegmentVideo(segment.id, result);
+            await checkpoint.update((current) => {
+              current.segments[segment.id] = result.videoURL;
+            });
 
-          if (videoURL) {
-            // Don't update segment status, just add to processed segments
-            processedSegments.push({
-              id: segment.id,
-              videoURL,
-              sortedIndex: segment.sortedIndex,
+            completeJob(segmentJob, {
+              videoURL: result.videoURL,
+              subtitleSource: result.subtitleSource,
+              alignmentConfidence: result.alignmentConfidence,
+            });
+            dispatchWebhook("segment.completed", {
+              segmentId: segment.id,
+              storyId: video.storyId,
+              jobId: segmentJob.id,
+              status: "completed",
+              url: result.videoURL,
+              duration: result.duration,
+              subtitleSource: result.subtitleSource,
+              alignmentConfidence: result.alignmentConfidence,
+            });
+            return result;
+          } catch (segmentError) {
+            failJob(segmentJob, segmentError);
+            throw segmentError;
+          } finally {
+            renderedCount++;
+            setJobProgress(job, {
+              percent: (renderedCount / staleSegments.length) * 100,
             });
-          } else {
-            logError(`Failed to process segment ${segment.id}`);
-            hasFailedSegments = true;
           }
-        } catch (segmentError) {
-          logError(`Error processing segment ${segment.id}`, segmentError);
-          hasFailedSegments = true;
         }
-      }
+      );
+
+      // Track any failures during segment processing, in story order
+      let hasPermanentSegmentFailure = false;
+      let firstSegmentError: unknown;
+
+      results.forEach((result, index) => {
+        const segment = staleSegments[index];
+        if (result.status === "fulfilled") {
+          processedSegments.push({
+            id: segment.id,
+            videoURL: result.value.videoURL,
+            sortedIndex: segment.sortedIndex,
+            transcript: result.value.transcript,
+            translations: result.value.translations,
+          });
+          return;
+        }
+
+        logError(`Error processing segment ${segment.id}`, result.reason);
+        firstSegmentError = firstSegmentError || result.reason;
+        if (
+          result.reason instanceof ProcessingError &&
+          result.reason.type === ErrorType.PERMANENT
+        ) {
+          hasPermanentSegmentFailure = true;
+        }
+      });
 
       // If any segments failed during processing, mark the entire video as failed
-      if (hasFailedSegments) {
-        logWarning(
-          `Some segments failed during processing for video ${videoId}`
+      if (firstSegmentError) {
+        const createError = hasPermanentSegmentFailure
+          ? permanentError
+          : temporaryError;
+        // Report the stage of the first segment that failed
+        const failedStage =
+          firstSegmentError instanceof ProcessingError
+            ? firstSegmentError.stage
+            : undefined;
+        throw createError(
+          `Some segments failed during processing for video ${videoId}`,
+          firstSegmentError,
+          failedStage || "render"
         );
-        await updateVideoStatus(videoId, "failed");
-        // Early return so worker can move on to the next item
-        return null;
       }
     } finally {
       // For immediate cleanup of the directories used in this processing run
@@ -232,11 +549,13 @@ export async function processVideo(videoId: string): Promise<string | null> {
 
     // 5. Update video status based on processing results
     if (processedSegments.length === 0) {
-      logError(`Failed to process any segments for video ${videoId}`);
-      await updateVideoStatus(videoId, "failed");
-      // Early return so worker can move on to the next item
-      return null;
+      throw temporaryError(
+        `Failed to process any segments for video ${videoId}`,
+        undefined,
+        "render"
+      );
     }
+    await checkpoint.complete("segments");
 
     // 6. Merge all segment videos into a single video file with transitions
     logSectionHeader(
@@ -248,10 +567,7 @@ export async function processVideo(videoId: string): Promise<string | null> {
       logInfo("Sorting segments by index to ensure correct order");
       processedSegments.sort((a, b) => a.sortedIndex - b.sortedIndex);
 
-      // Download all segment videos to local files
-      const localVideoFiles: string[] = [];
       const storyId = video.storyId;
-      logInfo(`Preparing to download segment videos for story ${storyId}`);
 
       // Create a temporary directory for the final video
       logInfo("Creating directory for final merged video");
@@ -266,75 +582,288 @@ export async function processVideo(videoId: string): Promise<string | null> {
       // Prepare the path for the final merged video
       const finalVideoPath = path.join(finalVideoDir, `${videoId}.mp4`);
 
-      // We'll store the finalized video directly in Supabase storage, not locally
+      const { delivery } = config.subtitles;
+      let subtitleTracks: SidecarSubtitles[] = [];
+      let merged = checkpoint.checkpoint.merged;
+
+      if (merged) {
+        logInfo(`Merged video was already uploaded to ${merged.videoURL}, skipping the merge`);
+        if (config.subtitles.sidecar && !checkpoint.isComplete("subtitles")) {
+          subtitleTracks = writeSidecarSubtitles(
+            toSubtitleClips(merged, processedSegments),
+            finalVideoDir
+          );
+        }
+
+        // HLS and previews are made from the finalized MP4
+        const needsLocalVideo =
+          (config.hls.enabled && !checkpoint.isComplete("hls")) ||
+          (config.previews.enabled && !checkpoint.isComplete("previews"));
+        if (needsLocalVideo) {
+          setJobState(job, "downloading");
+          if (!(await downloadFile(merged.videoURL, finalVideoPath))) {
+            throw temporaryError(
+              "Failed to download the merged video",
+              undefined,
+              "download"
+            );
+          }
+        }
+      } else {
+        // Download all segment videos to local files
+        const localVideoFiles: string[] = [];
+        // Segments whose video was downloaded, in merge order
+        const mergedSegments: typeof processedSegments = [];
+        logInfo(`Preparing to download segment videos for story ${storyId}`);
+
+        // We'll store the finalized video directly in Supabase storage, not locally
+
+        // First, download all segment videos
+        setJobState(job, "downloading");
+        for (const segment of processedSegments) {
+          if (!segment.videoURL) {
+            logWarning(`Segment ${segment.id} has no videoURL, skipping`);
+            continue;
+          }
+
+          logInfo(`Downloading video for segment ${segment.id}`);
+          const segmentVideoPath = path.join(
+            finalVideoDir,
+            `segment_${segment.id}.mp4`
+          );
+          const downloaded = await downloadFile(
+            segment.videoURL,
+            segmentVideoPath
+          );
 
-      // First, download all segment videos
-      for (const segment of processedSegments) {
-        if (!segment.videoURL) {
-          logWarning(`Segment ${segment.id} has no videoURL, skipping`);
-          continue;
+          if (downloaded) {
+            logSuccess(`Downloaded video for segment ${segment.id}`);
+            localVideoFiles.push(segmentVideoPath);
+            mergedSegments.push(segment);
+            setJobProgress(job, {
+              percent: (localVideoFiles.length / processedSegments.length) * 100,
+            });
+          } else {
+            logError(`Failed to download video for segment ${segment.id}`);
+          }
+        }
+
+        if (localVideoFiles.length === 0) {
+          throw temporaryError(
+            "Failed to download any segment videos",
+            undefined,
+            "download"
+          );
         }
 
-        logInfo(`Downloading video for segment ${segment.id}`);
-        const segmentVideoPath = path.join(
-          finalVideoDir,
-          `segment_${segment.id}.mp4`
+        logSuccess(
+          `Successfully downloaded ${localVideoFiles.length} segment videos`
         );
-        const downloaded = await downloadFile(
-          segment.videoURL,
-          segmentVideoPath
+
+        // Bumpers are re-encoded to the preset so they merge like any other segment
+        const branding = await resolveBranding(video.branding, finalVideoDir);
+        let introDuration = 0;
+        let outroDuration = 0;
+        if (branding.introPath) {
+          const introPath = path.join(finalVideoDir, "intro-normalized.mp4");
+          introDuration = await withStage("render", () =>
+            normalizeClip(branding.introPath!, introPath, renderPreset)
+          );
+          localVideoFiles.unshift(introPath);
+        }
+        if (branding.outroPath) {
+          const outroPath = path.join(finalVideoDir, "outro-normalized.mp4");
+          outroDuration = await withStage("render", () =>
+            normalizeClip(branding.outroPath!, outroPath, renderPreset)
+          );
+          localVideoFiles.push(outroPath);
+        }
+
+        // Call the new merge function with transition effect
+        logInfo("Merging video segments with transition effects");
+        setJobState(job, "merging");
+        const { duration: mergedDuration, offsets } = await withStage("render", () =>
+          mergeVideosWithTransition(
+            localVideoFiles,
+            finalVideoPath,
+            renderPreset,
+            config.transitions.duration,
+            config.transitions.type,
+            (progress) => setJobProgress(job, progress)
+          )
         );
+        logInfo(`Merged video duration: ${mergedDuration.toFixed(2)}s`);
+
+        const layout: Omit<MergedCheckpoint, "videoURL"> = {
+          duration: mergedDuration,
+          introDuration,
+          outroDuration,
+          segmentIds: mergedSegments.map((segment) => segment.id),
+          offsets,
+          hasIntro: Boolean(branding.introPath),
+        };
+
+        // Keep the logo off the bumpers
+        if (branding.watermark) {
+          setJobState(job, "branding");
+          const watermarkedPath = path.join(finalVideoDir, `${videoId}-watermark.mp4`);
+          await withStage("render", () =>
+            applyWatermark(
+              finalVideoPath,
+              branding.watermark!.imagePath,
+              watermarkedPath,
+              mergedDuration,
+              {
+                ...branding.watermark!.overlay,
+                start: introDuration,
+                end: mergedDuration - outroDuration,
+              },
+              renderPreset,
+              (progress) => setJobProgress(job, progress)
+            )
+          );
+          fs.renameSync(watermarkedPath, finalVideoPath);
+        }
 
-        if (downloaded) {
-          logSuccess(`Downloaded video for segment ${segment.id}`);
-          localVideoFiles.push(segmentVideoPath);
-        } else {
-          logError(`Failed to download video for segment ${segment.id}`);
+        // Lay the music bed under the narration, if the video has one
+        const musicBed = await resolveMusicBed(video, finalVideoDir);
+        if (musicBed) {
+          setJobState(job, "mixing");
+          const mixedVideoPath = path.join(finalVideoDir, `${videoId}-music.mp4`);
+          await withStage("render", () =>
+            mixBackgroundMusic(
+              finalVideoPath,
+              musicBed.path,
+              mixedVideoPath,
+              mergedDuration,
+              musicBed.mix,
+              (progress) => setJobProgress(job, progress)
+            )
+          );
+          fs.renameSync(mixedVideoPath, finalVideoPath);
         }
-      }
 
-      if (localVideoFiles.length === 0) {
-        logError("Failed to download any segment videos");
-        await updateVideoStatus(videoId, "failed");
-        // Early return so worker can move on to the next item
-        return null;
+        // Subtitles for the whole video, as sidecar files and/or soft tracks
+        subtitleTracks =
+          config.subtitles.sidecar || delivery !== "burn"
+            ? writeSidecarSubtitles(toSubtitleClips(layout, processedSegments), finalVideoDir)
+            : [];
+        if (subtitleTracks.length > 0 && delivery !== "burn") {
+          logInfo(
+            `Adding soft subtitle tracks: ${subtitleTracks
+              .map((track) => track.language || "unknown")
+              .join(", ")}`
+          );
+          // Without burned-in captions the soft track is all viewers get, so turn on
+          // the one in the caption language
+          const captionLanguage = segmentOptions.captionLanguage;
+          const defaultTrack =
+            delivery === "soft"
+              ? subtitleTracks.find((track) => track.language === captionLanguage) ||
+                subtitleTracks[0]
+              : undefined;
+          const subtitledVideoPath = path.join(finalVideoDir, `${videoId}-subtitles.mp4`);
+          await withStage("render", () =>
+            muxSubtitleTracks(
+              finalVideoPath,
+              subtitleTracks.map((track) => ({
+                path: track.srtPath,
+                language: toIso6392(track.language),
+                title: track.kind === "translation" ? "Translation" : "Original",
+                isDefault: track === defaultTrack,
+              })),
+              subtitledVideoPath
+            )
+          );
+          fs.renameSync(subtitledVideoPath, finalVideoPath);
+        }
+
+        // Upload to the finalized video path in storage
+        const finalizedStorageFileName = buildStoragePath("finalVideo", {
+          videoId,
+          ext: "mp4",
+        });
+        logInfo(
+          `Uploading finalized video to storage as ${finalizedStorageFileName}`
+        );
+        setJobState(job, "uploading");
+        const uploadedURL = await uploadFile(
+          finalVideoPath,
+          finalizedStorageFileName
+        );
+
+        if (!uploadedURL) {
+          throw temporaryError(
+            "Failed to upload final merged video to storage",
+            undefined,
+            "upload"
+          );
+        }
+
+        logSuccess(`Successfully uploaded video with URL: ${uploadedURL}`);
+
+        // From here on a retry picks up the uploaded MP4 instead of merging again
+        const mergedCheckpoint: MergedCheckpoint = { ...layout, videoURL: uploadedURL };
+        merged = mergedCheckpoint;
+        await checkpoint.complete("merged", (current) => {
+          current.merged = mergedCheckpoint;
+        });
       }
 
-      logSuccess(
-        `Successfully downloaded ${localVideoFiles.length} segment videos`
-      );
+      const { videoURL, duration: mergedDuration, introDuration, outroDuration } = merged;
 
-      // Call the new merge function with transition effect
-      logInfo("Merging video segments with transition effects");
-      const transitionDuration = 0.5; // 0.5 second transition between segments
-      await mergeVideosWithTransition(
-        localVideoFiles,
-        finalVideoPath,
-        transitionDuration
-      );
+      // Artifacts already uploaded by an interrupted run are kept
+      const artifacts: VideoArtifacts = { ...checkpoint.checkpoint.artifacts };
+      const saveArtifacts = (stage: VideoCheckpointStage) =>
+        checkpoint.complete(stage, (current) => {
+          current.artifacts = { ...artifacts };
+        });
 
-      // Upload to the finalized-videos folder in Supabase storage
-      const finalizedStorageFileName = `finalized-videos/${videoId}.mp4`;
-      logInfo(
-        `Uploading finalized video to storage as ${finalizedStorageFileName}`
-      );
-      const videoURL = await uploadFile(
-        finalVideoPath,
-        finalizedStorageFileName
-      );
+      if (config.subtitles.sidecar && !checkpoint.isComplete("subtitles")) {
+        if (subtitleTracks.length > 0) {
+          Object.assign(artifacts, await uploadSidecarSubtitles(subtitleTracks, videoId));
+          logSuccess(`Subtitles: ${artifacts.srtURL}, ${artifacts.vttURL}`);
+        }
+        await saveArtifacts("subtitles");
+      }
 
-      if (!videoURL) {
-        logError("Failed to upload final merged video to storage");
-        await updateVideoStatus(videoId, "failed");
-        // Early return so worker can move on to the next item
-        return null;
+      // Package the finished video for adaptive streaming
+      if (config.hls.enabled && !checkpoint.isComplete("hls")) {
+        logInfo("Packaging HLS renditions");
+        setJobState(job, "packaging");
+        artifacts.hlsURL = await withStage("render", () =>
+          packageHls(finalVideoPath, videoId, finalVideoDir, renderPreset, (progress) =>
+            setJobProgress(job, progress)
+          )
+        );
+        logSuccess(`HLS master playlist: ${artifacts.hlsURL}`);
+        await saveArtifacts("hls");
       }
 
-      logSuccess(`Successfully uploaded video with URL: ${videoURL}`);
+      if (config.previews.enabled && !checkpoint.isComplete("previews")) {
+        logInfo("Generating poster, preview and thumbnail sprites");
+        setJobState(job, "previews");
+        Object.assign(
+          artifacts,
+          await withStage("render", () =>
+            generatePreviews(
+              finalVideoPath,
+              videoId,
+              storyId,
+              finalVideoDir,
+              mergedDuration,
+              { start: introDuration, end: mergedDuration - outroDuration },
+              renderPreset
+            )
+          )
+        );
+        await saveArtifacts("previews");
+      }
 
       // Update the video record with the URL
       logInfo(`Updating video ${videoId} with URL and completed status`);
-      await updateVideoStatus(videoId, "completed", videoURL);
+      await updateVideoStatus(videoId, "completed", videoURL, artifacts);
+      await checkpoint.finish();
 
       logSuccess(`Successfully processed and merged video ${videoId}`);
 
@@ -344,10 +873,22 @@ export async function processVideo(videoId: string): Promise<string | null> {
         logError(`Error cleaning up files for video ${videoId}`, error);
       });
 
-      return videoURL;
+      return { videoURL, storyId, duration: mergedDuration, ...artifacts };
     } catch (mergeError) {
       logError(`Error merging videos for ${videoId}`, mergeError);
 
+      // Leave the fallback for the last attempt, earlier attempts (and merges cut short
+      // by shutdown) just retry the merge
+      if (!isFinalAttempt || isShuttingDown()) {
+        throw mergeError instanceof ProcessingError
+          ? mergeError
+          : temporaryError(
+              `Error merging videos for ${videoId}`,
+              mergeError,
+              "render"
+            );
+      }
+
       // Fallback: If merging fails, use the first segment's video URL
       logWarning(`Merging failed. Falling back to first segment's video URL`);
       const videoURL = processedSegments[0].videoURL;
@@ -373,8 +914,11 @@ export async function processVideo(videoId: string): Promise<string | null> {
         const downloaded = await downloadFile(videoURL, fallbackVideoPath);
 
         if (downloaded) {
-          // Upload the fallback segment to finalized-videos folder at root level in Supabase storage
-          const finalizedStorageFileName = `finalized-videos/${videoId}_fallback.mp4`;
+          // Upload the fallback segment next to where the finalized video would have gone
+          const finalizedStorageFileName = buildStoragePath("finalVideo", {
+            videoId: `${videoId}_fallback`,
+            ext: "mp4",
+          });
           logInfo(
             `Uploading fallback video to dedicated storage folder as ${finalizedStorageFileName}`
           );
@@ -392,40 +936,61 @@ export async function processVideo(videoId: string): Promise<string | null> {
         logWarning(
           `Fallback: Updated video ${videoId} with first segment URL but marked as failed`
         );
-
-        // Schedule cleanup of temp directories (this will be done asynchronously)
-        logInfo(`Scheduling cleanup of temporary files for video ${videoId}`);
-        cleanupVideoFiles(videoId).catch((error) => {
-          logError(`Error cleaning up files for video ${videoId}`, error);
-        });
-
-        // Simply return null to indicate failure, allowing worker to move on
-        return null;
       } catch (fallbackError) {
         logError(`Failed to update video with fallback URL`, fallbackError);
-        await updateVideoStatus(videoId, "failed");
-        throw fallbackError;
+        throw temporaryError(
+          `Failed to update video ${videoId} with fallback URL`,
+          fallbackError,
+          "db_update"
+        );
       }
+
+      // Signal failure so the handler gives up on the message (temp files are cleaned below)
+      throw permanentError(
+        `Merging failed for video ${videoId}, fell back to first segment's video URL`,
+        mergeError,
+        mergeError instanceof ProcessingError ? mergeError.stage : "render"
+      );
     }
   } catch (error) {
     logError("Error processing video", error);
 
+    const processingError =
+      error instanceof ProcessingError
+        ? error
+        : temporaryError(
+            `Error processing video ${videoId}: ${
+              (error as Error)?.message || error
+            }`,
+            error
+          );
+
     // Clean up any temporary files that may have been created
     logInfo(`Attempting to clean up temporary files after error`);
     await cleanupVideoFiles(videoId).catch((cleanupError) => {
       logError(`Error cleaning up files for video ${videoId}`, cleanupError);
     });
 
-    // Update video status to failed if there was an error
-    try {
-      await updateVideoStatus(videoId, "failed");
-    } catch (updateError) {
-      logError(
-        `Failed to update video ${videoId} status to failed`,
-        updateError
-      );
+    // Only mark the video as failed once it won't be retried, otherwise it stays pending
+    // and keeps its checkpoint for the retry. A job interrupted by shutdown is always retried.
+    if (isShuttingDown()) {
+      await activeCheckpoint?.release();
+      logWarning(`Video ${videoId} was interrupted by shutdown, leaving it pending`);
+    } else if (processingError.type === ErrorType.PERMANENT || isFinalAttempt) {
+      await activeCheckpoint?.finish();
+      try {
+        await updateVideoStatus(videoId, "failed");
+      } catch (updateError) {
+        logError(
+          `Failed to update video ${videoId} status to failed`,
+          updateError
+        );
+      }
+    } else {
+      await activeCheckpoint?.release();
+      logWarning(`Leaving video ${videoId} pending for a retry`);
     }
 
-    return null;
+    throw processingError;
   }
 }
@@ -0,0 +1,282 @@
+import crypto from 'crypto';
+import { config } from '../config/config';
+import { logger } from '../utils/logger';
+import { SubtitleSource } from '../types';
+import type { SubtitleTrackURLs } from './sidecar-subtitle-service';
+
+export type WebhookEventType =
+  | 'segment.completed'
+  | 'segment.failed'
+  | 'video.completed'
+  | 'video.failed';
+
+// Details of the segment or video that reached a terminal state
+export interface WebhookEventData {
+  videoId?: string;
+  segmentId?: string;
+  storyId?: string;
+  jobId?: string;
+  status: 'completed' | 'failed';
+  url?: string;
+  duration?: number;
+  // Video events: HLS master playlist, preview artifacts and subtitles, when enabled
+  hlsURL?: string;
+  posterURL?: string;
+  previewURL?: string;
+  thumbnailsURL?: string;
+  srtURL?: string;
+  vttURL?: string;
+  subtitleTracks?: SubtitleTrackURLs[];
+  // Segment events: where the subtitles came from and how well the transcription matched the script
+  subtitleSource?: SubtitleSource | null;
+  alignmentConfidence?: number;
+  error?: string;
+}
+
+// Body POSTed to every webhook endpoint
+export interface WebhookEvent {
+  id: string;
+  type: WebhookEventType;
+  createdAt: string;
+  data: WebhookEventData;
+}
+
+// A single HTTP attempt of a delivery
+export interface WebhookAttempt {
+  attemptedAt: string;
+  durationMs: number;
+  statusCode?: number;
+  error?: string;
+}
+
+export type WebhookDeliveryStatus = 'pending' | 'delivered' | 'failed';
+
+// One event being delivered to one endpoint
+export interface WebhookDelivery {
+  id: string;
+  url: string;
+  event: WebhookEvent;
+  status: WebhookDeliveryStatus;
+  attempts: WebhookAttempt[];
+  nextAttemptAt?: string;
+  deliveredAt?: string;
+}
+
+// Filters accepted by listDeliveries
+export interface WebhookDeliveryFilter {
+  status?: WebhookDeliveryStatus;
+  type?: WebhookEventType;
+  videoId?: string;
+  segmentId?: string;
+}
+
+// Header names sent with every delivery
+export const SIGNATURE_HEADER = 'X-Webhook-Signature';
+export const TIMESTAMP_HEADER = 'X-Webhook-Timestamp';
+export const EVENT_HEADER = 'X-Webhook-Event';
+export const DELIVERY_HEADER = 'X-Webhook-Delivery';
+
+// Deliveries by id, in insertion order so the oldest are evicted first
+const deliveries = new Map<string, WebhookDelivery>();
+
+// Attempts in progress, and retries waiting for their backoff, so shutdown can flush them
+const inFlight = new Set<Promise<void>>();
+const retryTimers = new Map<string, NodeJS.Timeout>();
+let flushing = false;
+
+// Drop the oldest finished deliveries once the log limit is exceeded
+function pruneDeliveries(): void {
+  for (const [id, delivery] of deliveries) {
+    if (deliveries.size <= config.webhooks.logLimit) break;
+    if (delivery.status !== 'pending') {
+      deliveries.delete(id);
+    }
+  }
+}
+
+/**
+ * HMAC-SHA256 signature of `${timestamp}.${body}`, hex encoded.
+ * Receivers recompute it with the shared secret and compare to the signature header.
+ */
+export function signPayload(body: string, timestamp: string, secret: string): string {
+  return crypto
+    .createHmac('sha256', secret)
+    .update(`${timestamp}.${body}`)
+    .digest('hex');
+}
+
+// Delay before the next attempt, doubling per failed attempt
+function getRetryDelay(attempt: number): number {
+  return config.webhooks.retryBaseDelay * Math.pow(2, attempt - 1);
+}
+
+// Run an attempt in the background, tracked until it settles
+function deliver(delivery: WebhookDelivery): void {
+  const attempt = attemptDelivery(delivery)
+    .catch((error) => {
+      logger.error('Unexpected webhook delivery error', { deliveryId: delivery.id, error });
+    })
+    .finally(() => {
+      inFlight.delete(attempt);
+    });
+  inFlight.add(attempt);
+}
+
+async function attemptDelivery(delivery: WebhookDelivery): Promise<void> {
+  const body = JSON.stringify(delivery.event);
+  const timestamp = Math.floor(Date.now() / 1000).toString();
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+    [TIMESTAMP_HEADER]: timestamp,
+    [EVENT_HEADER]: delivery.event.type,
+    [DELIVERY_HEADER]: delivery.id
+  };
+
+  if (config.webhooks.secret) {
+    headers[SIGNATURE_HEADER] = `sha256=${signPayload(body, timestamp, config.webhooks.secret)}`;
+  }
+
+  const started = Date.now();
+  const attempt: WebhookAttempt = {
+    attemptedAt: new Date(started).toISOString(),
+    durationMs: 0
+  };
+
+  try {
+    const response = await fetch(delivery.url, {
+      method: 'POST',
+      headers,
+      body,
+      signal: AbortSignal.timeout(config.webhooks.timeout)
+    });
+    attempt.statusCode = response.status;
+    if (!response.ok) {
+      attempt.error = `HTTP ${response.status} ${response.statusText}`;
+    }
+  } catch (error) {
+    attempt.error = (error as Error)?.message || String(error);
+  }
+
+  attempt.durationMs = Date.now() - started;
+  delivery.attempts.push(attempt);
+
+  if (!attempt.error) {
+    delivery.status = 'delivered';
+    delivery.deliveredAt = new Date().toISOString();
+    delivery.nextAttemptAt = undefined;
+    logger.info('Webhook delivered', {
+      deliveryId: delivery.id,
+      type: delivery.event.type,
+      url: delivery.url,
+      attempts: delivery.attempts.length
+    });
+    pruneDeliveries();
+    return;
+  }
+
+  if (delivery.attempts.length >= config.webhooks.maxAttempts || flushing) {
+    delivery.status = 'failed';
+    delivery.nextAttemptAt = undefined;
+    logger.error('Webhook delivery failed', {
+      deliveryId: delivery.id,
+      type: delivery.event.type,
+      url: delivery.url,
+      attempts: delivery.attempts.length,
+      error: attempt.error
+    });
+    pruneDeliveries();
+    return;
+  }
+
+  const delay = getRetryDelay(delivery.attempts.length);
+  delivery.nextAttemptAt = new Date(Date.now() + delay).toISOString();
+  logger.warn('Webhook delivery attempt failed, retrying', {
+    deliveryId: delivery.id,
+    url: delivery.url,
+    attempt: delivery.attempts.length,
+    retryInMs: delay,
+    error: attempt.error
+  });
+
+  const timer = setTimeout(() => {
+    retryTimers.delete(delivery.id);
+    deliver(delivery);
+  }, delay);
+  timer.unref();
+  retryTimers.set(delivery.id, timer);
+}
+
+/**
+ * Send an event to every configured webhook endpoint.
+ * Deliveries run in the background and never throw into the processing pipeline.
+ */
+export function dispatchWebhook(type: WebhookEventType, data: WebhookEventData): WebhookEvent | null {
+  if (config.webhooks.urls.length === 0) {
+    return null;
+  }
+
+  const event: WebhookEvent = {
+    id: crypto.randomUUID(),
+    type,
+    createdAt: new Date().toISOString(),
+    data
+  };
+
+  for (const url of config.webhooks.urls) {
+    const delivery: WebhookDelivery = {
+      id: crypto.randomUUID(),
+      url,
+      event,
+      status: 'pending',
+      attempts: []
+    };
+    deliveries.set(delivery.id, delivery);
+    deliver(delivery);
+  }
+
+  return event;
+}
+
+/**
+ * Finish webhook deliveries before the process exits: retries waiting for their backoff
+ * are attempted right away, and every attempt gets WEBHOOK_TIMEOUT to complete.
+ * Deliveries that fail this last attempt are marked failed instead of being retried.
+ * @returns The number of deliveries that failed while flushing
+ */
+export async function flushWebhooks(): Promise<number> {
+  flushing = true;
+  const pending = Array.from(deliveries.values()).filter((delivery) => delivery.status === 'pending');
+
+  for (const [id, timer] of retryTimers) {
+    clearTimeout(timer);
+    retryTimers.delete(id);
+    const delivery = deliveries.get(id);
+    if (delivery) {
+      deliver(delivery);
+    }
+  }
+
+  await Promise.all(Array.from(inFlight));
+  return pending.filter((delivery) => delivery.status === 'failed').length;
+}
+
+/**
+ * Look up a delivery by id
+ */
+export function getDelivery(id: string): WebhookDelivery | undefined {
+  return deliveries.get(id);
+}
+
+/**
+ * List deliveries matching the filter, newest first
+ */
+export function listDeliveries(filter: WebhookDeliveryFilter = {}): WebhookDelivery[] {
+  return Array.from(deliveries.values())
+    .filter((delivery) =>
+      (!filter.status || delivery.status === filter.status) &&
+      (!filter.type || delivery.event.type === filter.type) &&
+      (!filter.videoId || delivery.event.data.videoId === filter.videoId) &&
+      (!filter.segmentId || delivery.event.data.segmentId === filter.segmentId)
+    )
+    .reverse();
+}
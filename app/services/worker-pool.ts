@@ -0,0 +1,137 @@
+import { HandlerResponse } from '../types';
+import { logger } from '../utils/logger';
+
+// Options for a pool of workers draining one kind of job
+export interface WorkerPoolOptions {
+  name: string;
+  concurrency: number;
+  handler: () => Promise<HandlerResponse>;
+  // Idle backoff bounds in milliseconds, doubled after each empty poll
+  idleDelayMin: number;
+  idleDelayMax: number;
+}
+
+// Snapshot of a pool, reported by /api/queue/status
+export interface WorkerPoolStatus {
+  name: string;
+  running: boolean;
+  concurrency: number;
+  busyWorkers: number;
+  processed: number;
+  failed: number;
+}
+
+export interface WorkerPool {
+  start: () => void;
+  stop: () => Promise<void>;
+  getStatus: () => WorkerPoolStatus;
+}
+
+/**
+ * Create a pool of independent workers that each loop pull-process-ack.
+ * A worker only polls again once its previous job has finished, so ticks never overlap,
+ * and it backs off exponentially while the queue is empty.
+ */
+export function createWorkerPool(options: WorkerPoolOptions): WorkerPool {
+  const { name, handler, idleDelayMin, idleDelayMax } = options;
+  const concurrency = Math.max(0, Math.floor(options.concurrency));
+
+  let running = false;
+  // Bumped on every start so loops from a previous run exit even if restarted quickly
+  let generation = 0;
+  let busyWorkers = 0;
+  let processed = 0;
+  let failed = 0;
+  let loops: Promise<void>[] = [];
+
+  // Sleeping workers, woken early when the pool is stopped
+  const sleepers = new Set<() => void>();
+
+  function sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => {
+      const wake = () => {
+        clearTimeout(timer);
+        sleepers.delete(wake);
+        resolve();
+      };
+      const timer = setTimeout(wake, ms);
+      sleepers.add(wake);
+    });
+  }
+
+  async function runWorker(workerId: number, runGeneration: number): Promise<void> {
+    let idleDelay = idleDelayMin;
+    const isActive = () => running && runGeneration === generation;
+
+    while (isActive()) {
+      let backOff = false;
+
+      busyWorkers++;
+      try {
+        const result = await handler();
+        if (result.idle) {
+          backOff = true;
+        } else if (result.statusCode >= 200 && result.statusCode < 300) {
+          processed++;
+        } else {
+          failed++;
+          // 5xx means the handler couldn't reach the queue at all, so don't hammer it
+          backOff = result.statusCode >= 500;
+        }
+      } catch (error) {
+        // Treat unexpected errors like an empty queue so a broken dependency isn't hammered
+        failed++;
+        backOff = true;
+        logger.error(`${name} worker ${workerId} error`, { error });
+      } finally {
+        busyWorkers--;
+      }
+
+      if (!isActive()) break;
+
+      if (backOff) {
+        await sleep(idleDelay);
+        idleDelay = Math.min(idleDelay * 2, idleDelayMax);
+      } else {
+        idleDelay = idleDelayMin;
+      }
+    }
+  }
+
+  return {
+    start() {
+      if (running) return;
+      running = true;
+      const runGeneration = ++generation;
+      // A worker from a previous run may still be inside a job; its replacement waits for it,
+      // so restarting never runs more than `concurrency` jobs and stop() still waits for it
+      loops = Array.from({ length: concurrency }, (_, i) =>
+        (loops[i] || Promise.resolve()).then(() => runWorker(i + 1, runGeneration))
+      );
+      logger.info(`Started ${name} workers`, { concurrency });
+    },
+
+    // Resolves once every worker has finished its current job
+    async stop() {
+      if (!running) {
+        await Promise.all(loops);
+        return;
+      }
+      running = false;
+      sleepers.forEach((wake) => wake());
+      await Promise.all(loops);
+      logger.info(`Stopped ${name} workers`);
+    },
+
+    getStatus() {
+      return {
+        name,
+        running,
+        concurrency,
+        busyWorkers,
+        processed,
+        failed
+      };
+    }
+  };
+}
@@ -4,6 +4,7 @@
 export interface HandlerResponse {
   statusCode: number;
   body: string;
+  idle?: boolean; // True when there was no message to process
 }
 
 // Segment data structure
@@ -22,3 +23,62 @@ export enum ErrorType {
   TEMPORARY = 'temporary', // Retry-able error (e.g., network issues)
   PERMANENT = 'permanent'  // Non-retry-able error (e.g., invalid data)
 }
+
+// Transition styles supported between merged segments
+export type TransitionType = 'fade' | 'wipe' | 'slide' | 'dissolve';
+
+// Pipeline stages a job can fail in, recorded on dead-lettered messages
+export type ProcessingStage =
+  | 'validate'
+  | 'download'
+  | 'probe'
+  | 'transcribe'
+  | 'render'
+  | 'upload'
+  | 'db_update';
+
+// FFmpeg progress snapshot reported while rendering or merging
+export interface RenderProgress {
+  percent: number;
+  fps?: number;
+  timemark?: string;
+}
+
+// A transcribed word with its timing in seconds
+export interface TranscriptWord {
+  word: string;
+  start: number;
+  end: number;
+  probability?: number;
+}
+
+// A phrase as segmented by the transcription engine
+export interface TranscriptSegment {
+  start: number;
+  end: number;
+  text: string;
+  words: TranscriptWord[];
+}
+
+// Structured transcription output, independent of the engine that produced it
+export interface Transcript {
+  provider: string;
+  model: string;
+  language: string;
+  text: string;
+  segments: TranscriptSegment[];
+  words: TranscriptWord[];
+}
+
+// Translated subtitle words keyed by language code, e.g. { en: ... }
+export type TranscriptTranslations = Record<string, Transcript>;
+
+// Where a segment's subtitle words and timings came from
+export type SubtitleSource = 'transcription' | 'aligned' | 'script';
+
+// A single timed subtitle line
+export interface SubtitleCue {
+  start: number;
+  end: number;
+  text: string;
+}
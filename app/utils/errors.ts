@@ -0,0 +1,81 @@
+import { ErrorType, ProcessingStage } from '../types';
+
+/**
+ * Error raised while processing a queue message.
+ * The type tells the handler whether the message is worth retrying,
+ * the stage records where in the pipeline it happened.
+ */
+export class ProcessingError extends Error {
+  readonly type: ErrorType;
+  readonly cause?: unknown;
+  stage?: ProcessingStage;
+
+  constructor(
+    message: string,
+    type: ErrorType = ErrorType.TEMPORARY,
+    cause?: unknown,
+    stage?: ProcessingStage
+  ) {
+    super(message);
+    this.name = 'ProcessingError';
+    this.type = type;
+    this.cause = cause;
+    this.stage = stage;
+  }
+}
+
+/**
+ * Shorthand for errors caused by bad input data that will never succeed on retry
+ */
+export function permanentError(
+  message: string,
+  cause?: unknown,
+  stage?: ProcessingStage
+): ProcessingError {
+  return new ProcessingError(message, ErrorType.PERMANENT, cause, stage);
+}
+
+/**
+ * Shorthand for errors that may succeed on a later attempt (network, FFmpeg, Whisper, DB)
+ */
+export function temporaryError(
+  message: string,
+  cause?: unknown,
+  stage?: ProcessingStage
+): ProcessingError {
+  return new ProcessingError(message, ErrorType.TEMPORARY, cause, stage);
+}
+
+/**
+ * Determine whether an error should be retried.
+ * Anything we didn't explicitly classify is treated as temporary.
+ */
+export function classifyError(error: unknown): ErrorType {
+  if (error instanceof ProcessingError) {
+    return error.type;
+  }
+  return ErrorType.TEMPORARY;
+}
+
+/**
+ * Run a pipeline step and tag any error it throws with the step's stage.
+ * Errors already tagged by a deeper step keep their original stage.
+ */
+export async function withStage<T>(
+  stage: ProcessingStage,
+  step: () => Promise<T>
+): Promise<T> {
+  try {
+    return await step();
+  } catch (error) {
+    if (error instanceof ProcessingError) {
+      error.stage = error.stage || stage;
+      throw error;
+    }
+    throw temporaryError(
+      `${stage} failed: ${(error as Error)?.message || error}`,
+      error,
+      stage
+    );
+  }
+}
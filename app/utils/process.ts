@@ -0,0 +1,107 @@
+import { spawn, ChildProcess } from 'child_process';
+
+// Output captured from a finished child process
+export interface ProcessOutput {
+  stdout: string;
+  stderr: string;
+}
+
+// Keep only the end of long stderr output in error messages
+const MAX_ERROR_OUTPUT = 2000;
+
+// Running FFmpeg/Whisper children, stopped on shutdown
+const children = new Set<ChildProcess>();
+// Set once shutdown has started stopping children; anything spawned later is stopped straight away
+let terminating = false;
+
+/**
+ * Keep track of a child process until it exits, so shutdown can stop it
+ */
+export function trackChildProcess(child: ChildProcess): void {
+  if (terminating) {
+    child.kill('SIGTERM');
+    return;
+  }
+  children.add(child);
+  child.once('exit', () => children.delete(child));
+}
+
+/**
+ * Number of tracked children still running
+ */
+export function getChildProcessCount(): number {
+  return children.size;
+}
+
+/**
+ * Stop every tracked child with SIGTERM, then SIGKILL whatever is still running after `timeoutMs`
+ * @returns Number of children that were running
+ */
+export async function terminateChildProcesses(timeoutMs = 5000): Promise<number> {
+  terminating = true;
+  const running = Array.from(children);
+  if (running.length === 0) {
+    return 0;
+  }
+
+  const exited = running.map(
+    (child) =>
+      new Promise<void>((resolve) => {
+        if (child.exitCode !== null || child.signalCode !== null) {
+          resolve();
+          return;
+        }
+        child.once('exit', () => resolve());
+      })
+  );
+  running.forEach((child) => child.kill('SIGTERM'));
+
+  let timer: NodeJS.Timeout | undefined;
+  const timedOut = new Promise<void>((resolve) => {
+    timer = setTimeout(resolve, timeoutMs);
+  });
+  await Promise.race([Promise.all(exited), timedOut]);
+  clearTimeout(timer);
+
+  children.forEach((child) => child.kill('SIGKILL'));
+  return running.length;
+}
+
+/**
+ * Run a command to completion, resolving with its output.
+ * Rejects if the command can't be started or exits with a non-zero code.
+ */
+export function runProcess(
+  command: string,
+  args: string[],
+  options: { cwd?: string } = {}
+): Promise<ProcessOutput> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(command, args, { cwd: options.cwd });
+    trackChildProcess(child);
+
+    let stdout = '';
+    let stderr = '';
+
+    child.stdout.on('data', (data) => {
+      stdout += data.toString();
+    });
+
+    child.stderr.on('data', (data) => {
+      stderr += data.toString();
+    });
+
+    child.on('error', (error: Error) => {
+      reject(new Error(`Failed to start ${command}: ${error.message}`));
+    });
+
+    child.on('close', (code, signal) => {
+      if (code === 0) {
+        resolve({ stdout, stderr });
+        return;
+      }
+      const reason = signal ? `was killed by ${signal}` : `failed with code ${code}`;
+      reject(new Error(`${command} ${reason}: ${stderr.slice(-MAX_ERROR_OUTPUT)}`));
+    });
+  });
+}
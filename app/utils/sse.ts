@@ -0,0 +1,51 @@
+import type { Request, Response } from 'express';
+
+// Interval between keep-alive comments so proxies don't drop idle streams
+const HEARTBEAT_INTERVAL_MS = 15000;
+
+// An open Server-Sent Events connection
+export interface EventStream {
+  send: (event: string, data: unknown) => void;
+  close: () => void;
+}
+
+/**
+ * Switch a response into a Server-Sent Events stream.
+ * `onClose` runs once, whether the client disconnects or the server closes the stream.
+ */
+export function openEventStream(
+  req: Request,
+  res: Response,
+  onClose: () => void
+): EventStream {
+  res.status(200);
+  res.setHeader('Content-Type', 'text/event-stream');
+  res.setHeader('Cache-Control', 'no-cache');
+  res.setHeader('Connection', 'keep-alive');
+  res.setHeader('X-Accel-Buffering', 'no'); // Disable nginx buffering
+  res.flushHeaders();
+
+  let closed = false;
+
+  const heartbeat = setInterval(() => {
+    res.write(': heartbeat\n\n');
+  }, HEARTBEAT_INTERVAL_MS);
+
+  const close = () => {
+    if (closed) return;
+    closed = true;
+    clearInterval(heartbeat);
+    onClose();
+    res.end();
+  };
+
+  req.on('close', close);
+
+  return {
+    send(event: string, data: unknown) {
+      if (closed) return;
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    },
+    close
+  };
+}